@@ -11,51 +11,144 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
+import LevelEditor from "@/components/level-editor";
+import OnlineLobby from "@/components/online-lobby";
+import SpeedrunResults from "@/components/speedrun-results";
+import TouchControls, {
+  TOUCH_EDGES,
+  type TouchLayout,
+} from "@/components/touch-controls";
+import { useGamepads, type GamepadAssignments } from "@/hooks/use-gamepads";
+import { useNetSession } from "@/hooks/use-net-session";
+import { useTouchInput } from "@/hooks/use-touch-input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { Info, Pause, Play, RefreshCw, Settings2 } from "lucide-react";
-
-type Vec2 = { x: number; y: number };
-type KeyBinding = { left: string; right: string; jump: string; action: string };
-type Player = {
-  id: number;
-  name: string;
-  color: string;
-  spawn: Vec2;
-  pos: Vec2;
-  vel: Vec2;
-  w: number;
-  h: number;
-  onGround: boolean;
-  jumpLock: boolean;
-  alive: boolean;
-  exitReached: boolean;
-  controls: KeyBinding;
-  facing: -1 | 1;
-  maxAirJumps: number;
-  airJumpsLeft: number;
-  // Wind dash
-  isDashing: boolean;
-  dashUntil: number;
-  dashCooldownUntil: number;
-  // Ability cooldowns
-  abilityCooldownUntil: number;
-  // FX
-  nextStepFxTime?: number;
-};
-type Level = {
-  tiles: string[];
-  w: number;
-  h: number;
-  tileSize: number;
-  doorOpen: boolean;
-};
+import {
+  Download,
+  Info,
+  Pause,
+  Pencil,
+  Play,
+  RefreshCw,
+  Settings2,
+  Square,
+  Timer,
+  Upload,
+} from "lucide-react";
 
-type TempPlatform = { tx: number; ty: number; expiresAt: number };
+import {
+  DOUBLE_TAP_WINDOW,
+  MAX_STEPS_PER_FRAME,
+  SIM_DT,
+  TILE,
+} from "@/lib/game/constants";
+import { interpolateBodies, interpolateEntities } from "@/lib/game/interpolate";
+import { BUILTIN_LEVELS } from "@/lib/game/levels";
+import {
+  formatIssue,
+  hasErrors,
+  validateLevel,
+  type ValidationIssue,
+} from "@/lib/game/validate";
+import {
+  bindingKeys,
+  EMPTY_INPUT,
+  filterInput,
+  mergeInputs,
+  remapInput,
+} from "@/lib/game/input";
+import { createBot, type Bot } from "@/lib/game/bots";
+import {
+  applyCamera,
+  createCamera,
+  followPlayers,
+  snapToPlayers,
+  type Camera,
+} from "@/lib/game/camera";
+import { clamp, lerp } from "@/lib/game/math";
+import {
+  createPredictor,
+  decodeState,
+  SNAPSHOT_INTERVAL,
+  type HostMessage,
+  type NetInput,
+} from "@/lib/game/net";
+import {
+  createPlayback,
+  createRecording,
+  parseRecording,
+  recordTick,
+  serializeRecording,
+  type Recording,
+} from "@/lib/game/replay";
+import {
+  activeCharacter,
+  activeCharacters,
+  applySwaps,
+  createParty,
+  MAX_PARTY_SIZE,
+  partyInput,
+  seatOf,
+  type Party,
+} from "@/lib/game/party";
+import {
+  ELEMENTS,
+  ELEMENT_IDS,
+  elementById,
+  elementSound,
+  type StepEffect,
+} from "@/lib/game/elements";
+import { inGust } from "@/lib/game/gust";
+import {
+  drawActiveMarker,
+  drawAimCursor,
+  drawCooldown,
+  drawCrates,
+  drawEntities,
+  drawLevel,
+  drawOffscreenArrows,
+  drawPlayer,
+} from "@/lib/game/render";
+import {
+  DEFAULT_AUDIO,
+  DEFAULT_DISPLAY,
+  DEFAULT_PROGRESS,
+  parseSave,
+  readSave,
+  recordClear,
+  SAVE_VERSION,
+  serializeSave,
+  writeSave,
+  type AudioPrefs,
+  type SaveData,
+} from "@/lib/game/save";
+import { dragFactor } from "@/lib/game/physics";
+import { createGameState, stepGame } from "@/lib/game/simulation";
+import {
+  createTimer,
+  EMPTY_RECORDS,
+  formatRunTime,
+  recordSplit,
+  submitSplit,
+  tickTimer,
+  type SpeedrunTimer,
+} from "@/lib/game/speedrun";
+import type {
+  GameEvent,
+  GameState,
+  InputSnapshot,
+  KeyBinding,
+  LevelFile,
+  Player,
+} from "@/lib/game/types";
+import { cn } from "@/lib/utils";
 
 type Particle = {
   x: number;
   y: number;
+  // Position at the previous simulation tick, for interpolated drawing
+  px?: number;
+  py?: number;
   vx: number;
   vy: number;
   life: number;
@@ -69,369 +162,17 @@ type Particle = {
   additive: boolean;
 };
 
-// Plate state
-type PlateState = {
-  tx: number;
-  ty: number;
-  pressed: boolean;
-  pressTime: number;
-};
-
-const TILE = 32;
-const GRAVITY = 1800;
-const MOVE_SPEED = 280;
-const JUMP_SPEED = 700;
-const MAX_FALL = 1200;
-const FRICTION = 0.85;
-const AIR_DRAG = 0.99;
-
-// Swim tuning
-const SWIM_SPEED = 180;
-const SWIM_UP_FORCE = 1800;
-const SWIM_MAX_UP = -260;
-const SWIM_MAX_DOWN = 420;
-const WATER_DRAG_X = 0.92;
-
-// Wind dash tuning
-const DASH_SPEED = 900;
-const DASH_DURATION = 0.18;
-const DASH_COOLDOWN = 1;
-const DOUBLE_TAP_WINDOW = 250;
-
-// Earth cooldown
-const EARTH_COOLDOWN = 2; // seconds
-
-// Level progression - 3 levels with increasing complexity and teamwork requirements
-const LEVEL_MAPS: string[][] = [
-  // Level 1: Tutorial - Simple movement and basic abilities
-  [
-    "#################################",
-    "#...............................#",
-    "#bbb....##......................#",
-    "#b1b....#2.....................##",
-    "#.#......#OOOOO#..............#.#",
-    "#.........#####.............C#..#",
-    "#...........................#...#",
-    "#...##..........................#",
-    "#........3......................#",
-    "#.#......#......................#",
-    "##4.............................#",
-    "#.#.............................#",
-    "#.#OOOOO................A.B...D.#",
-    "#################################",
-  ],
-
-  // Level 2: Basic cooperation - Need 2 players to open door
-  [
-    "#################################",
-    "#......#........................#",
-    "#..P...#........................#",
-    "#......#........................#",
-    "#......################.........#",
-    "#......#..........#...#.........#",
-    "#......#..........#...#.........#",
-    "#......#..C......##...#.........#",
-    "#..###O#######eee#nnnD#.........#",
-    "#..#.....b..........####........#",
-    "#.1#.....b..............#.......#",
-    "##2#.....b.............P#.......#",
-    "#.3#....######..###ffff#........#",
-    "#.4########..A....B#####........#",
-    "#################################",
-    // C is earth
-    // B is water
-    // "########################",
-    // "#......................#",
-    // "#.1................2...#",
-    // "#......................#",
-    // "#......bb..OOO.........#",
-    // "#......................#",
-    // "#..P...####Q####...P...#",
-    // "#......................#",
-    // "#......~~~~............#",
-    // "#......................#",
-    // "#.3................4...#",
-    // "#......................#",
-    // "#.A........B.C.......D.#",
-    // "########################",
-  ],
-
-  // Level 3: Element synergy - Need specific abilities in sequence
-  [
-    "#################################",
-    "#...............................#",
-    "#..2......1............3....4...#",
-    "######e######f###a########n######",
-    "#....#.#....#.#.#.#......#.#....#",
-    "#....#P#....#P#.#P#......#P#....#",
-    "#...............................#",
-    "#.....#......#............#.....#",
-    "#OOOOOOOOOOOOOOOO#OOOOOOOOOOOOOO#",
-    "#...............................#",
-    "#.....A........................D#",
-    "#.....#.............#.#........##",
-    "#...................#.#.........#",
-    "#....#........B.....#C#.........#",
-    "#################################",
-  ],
-];
-
-const LEVEL_DESCRIPTIONS = [
-  "Tutorial: Learn basic movement and abilities",
-  "Cooperation: Work together to activate switches",
-  "Element Synergy: Use abilities in the right sequence",
-];
-
-// Utilities
-function clamp(v: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, v));
-}
-function rectIntersect(
-  a: { x: number; y: number; w: number; h: number },
-  b: { x: number; y: number; w: number; h: number }
-) {
-  return !(
-    a.x + a.w <= b.x ||
-    a.x >= b.x + b.w ||
-    a.y + a.h <= b.y ||
-    a.y >= b.y + b.h
+// Keys typed into a text field (team or lobby names) are not game input
+function isTyping(e: KeyboardEvent) {
+  const el = e.target;
+  return (
+    el instanceof HTMLElement &&
+    (el.isContentEditable ||
+      (el instanceof HTMLInputElement &&
+        !["checkbox", "range", "file"].includes(el.type)) ||
+      el instanceof HTMLTextAreaElement)
   );
 }
-function worldToTile(x: number, y: number, tileSize: number) {
-  return { tx: Math.floor(x / tileSize), ty: Math.floor(y / tileSize) };
-}
-
-function createLevel(levelIndex: number = 0): Level {
-  const levelMap = LEVEL_MAPS[levelIndex] || LEVEL_MAPS[0];
-  const h = levelMap.length;
-  const w = levelMap[0].length;
-  return { tiles: levelMap.slice(), h, w, tileSize: TILE, doorOpen: false };
-}
-
-function findSpawnsAndExits(level: Level) {
-  const spawns: Record<number, Vec2> = {
-    1: { x: TILE, y: TILE },
-    2: { x: TILE, y: TILE },
-    3: { x: TILE, y: TILE },
-    4: { x: TILE, y: TILE },
-  };
-  const exits: Record<number, Vec2[]> = { 1: [], 2: [], 3: [], 4: [] };
-  for (let y = 0; y < level.h; y++) {
-    for (let x = 0; x < level.w; x++) {
-      const c = level.tiles[y][x];
-      if (c === "1" || c === "2" || c === "3" || c === "4") {
-        const idx = Number(c);
-        spawns[idx] = { x: x * TILE + TILE / 2, y: y * TILE + TILE / 2 };
-        level.tiles[y] = replaceChar(level.tiles[y], x, ".");
-      } else if (c === "A" || c === "B" || c === "C" || c === "D") {
-        const mapIdx = { A: 1, B: 2, C: 3, D: 4 } as const;
-        const p = mapIdx[c as keyof typeof mapIdx];
-        exits[p].push({ x: x * TILE, y: y * TILE });
-      }
-    }
-  }
-  return { spawns, exits };
-}
-
-function replaceChar(str: string, index: number, char: string) {
-  return str.substring(0, index) + char + str.substring(index + 1);
-}
-
-function isSolid(ch: string, doorOpen: boolean) {
-  if (ch === "#") return true;
-  if (ch === "Q") return !doorOpen;
-  if (ch === "b") return true;
-  if (ch === "X") return true;
-  return false;
-}
-function isPlate(ch: string) {
-  return ch === "P";
-}
-
-// Colored hole helpers
-function isColoredHole(ch: string) {
-  return ch === "f" || ch === "a" || ch === "e" || ch === "n";
-}
-function safePlayerForColoredHole(ch: string): 1 | 2 | 3 | 4 | null {
-  switch (ch) {
-    case "f":
-      return 1;
-    case "a":
-      return 2;
-    case "e":
-      return 3;
-    case "n":
-      return 4;
-    default:
-      return null;
-  }
-}
-function isLiquidForPlayer(ch: string, playerId: number) {
-  if (ch === "W") return true;
-  if (isColoredHole(ch))
-    return safePlayerForColoredHole(ch) === (playerId as 1 | 2 | 3 | 4);
-  return false;
-}
-function isHazardFor(ch: string, playerId: number) {
-  if (ch === "~") return true; // poison
-  if (ch === "O") return true; // dark hole
-  if (isColoredHole(ch))
-    return safePlayerForColoredHole(ch) !== (playerId as 1 | 2 | 3 | 4);
-  return false;
-}
-
-function drawLevel(
-  ctx: CanvasRenderingContext2D,
-  level: Level,
-  gateReached: Partial<Record<1 | 2 | 3 | 4, boolean>> = {},
-  plates: Map<string, PlateState> = new Map(),
-  now: number = performance.now()
-) {
-  const { w, h, tileSize, doorOpen } = level;
-  for (let y = 0; y < h; y++) {
-    const row = level.tiles[y];
-    for (let x = 0; x < w; x++) {
-      const c = row[x];
-      const px = x * tileSize;
-      const py = y * tileSize;
-      if (c === "#") {
-        ctx.fillStyle = "#3f3f46";
-        ctx.fillRect(px, py, tileSize, tileSize);
-      } else if (c === "~") {
-        ctx.fillStyle = "#16a34a";
-        ctx.fillRect(px, py, tileSize, tileSize);
-        ctx.fillStyle = "rgba(255,255,255,0.25)";
-        ctx.fillRect(px, py + tileSize - 6, tileSize, 3);
-      } else if (c === "O") {
-        ctx.fillStyle = "#0f172a";
-        ctx.fillRect(px, py, tileSize, tileSize);
-      } else if (c === "W") {
-        ctx.fillStyle = "rgba(14,165,233,0.65)";
-        ctx.fillRect(px, py, tileSize, tileSize);
-        ctx.fillStyle = "rgba(255,255,255,0.35)";
-        ctx.fillRect(px, py + tileSize - 8, tileSize, 3);
-      } else if (isColoredHole(c)) {
-        const colors: Record<string, string> = {
-          f: "#ef4444",
-          a: "#14b8a6",
-          e: "#92400e",
-          n: "#38bdf8",
-        };
-        ctx.fillStyle = "#0f172a";
-        ctx.fillRect(px, py, tileSize, tileSize);
-        ctx.strokeStyle = colors[c];
-        ctx.lineWidth = 3;
-        ctx.strokeRect(px + 2, py + 2, tileSize - 4, tileSize - 4);
-        ctx.fillStyle = `${colors[c]}55`;
-        ctx.fillRect(px + 6, py + 6, tileSize - 12, tileSize - 12);
-        ctx.fillStyle = "rgba(255,255,255,0.25)";
-        ctx.fillRect(px + 4, py + tileSize - 7, tileSize - 8, 3);
-      } else if (c === "P") {
-        const key = `${x},${y}`;
-        const st = plates.get(key);
-        const pressed = st?.pressed;
-        ctx.fillStyle = pressed ? "#22c55e" : "#f59e0b";
-        const inset = pressed ? 8 : 6;
-        ctx.fillRect(
-          px + inset,
-          py + tileSize - inset - 2,
-          tileSize - inset * 2,
-          6
-        );
-        ctx.fillStyle = pressed ? "#16a34a" : "#b45309";
-        ctx.fillRect(
-          px + inset + 2,
-          py + tileSize - inset - 4,
-          tileSize - (inset + 2) * 2,
-          3
-        );
-        if (pressed && st) {
-          const t = (now - st.pressTime) / 600;
-          if (t < 1.2) {
-            ctx.strokeStyle = "rgba(34,197,94,0.55)";
-            ctx.lineWidth = 2;
-            const r = 4 + t * 12;
-            ctx.beginPath();
-            ctx.arc(
-              px + tileSize / 2,
-              py + tileSize - inset - 3,
-              r,
-              0,
-              Math.PI * 2
-            );
-            ctx.stroke();
-          }
-        }
-      } else if (c === "Q") {
-        if (!doorOpen) {
-          ctx.fillStyle = "#7c3aed";
-          ctx.fillRect(px, py, tileSize, tileSize);
-          ctx.fillStyle = "#a78bfa";
-          ctx.fillRect(px + 6, py + 6, tileSize - 12, tileSize - 12);
-        } else {
-          ctx.strokeStyle = "rgba(124,58,237,0.4)";
-          ctx.strokeRect(px + 4, py + 4, tileSize - 8, tileSize - 8);
-        }
-      } else if (c === "b") {
-        ctx.fillStyle = "#dc2626";
-        ctx.fillRect(px, py, tileSize, tileSize);
-        ctx.fillStyle = "#fecaca";
-        ctx.fillRect(px + 6, py + 6, tileSize - 12, tileSize - 12);
-      } else if (c === "X") {
-        ctx.fillStyle = "#92400e";
-        ctx.fillRect(px, py, tileSize, tileSize);
-        ctx.strokeStyle = "#f59e0b";
-        ctx.strokeRect(px + 4, py + 4, tileSize - 8, tileSize - 8);
-      } else if (c === "A" || c === "B" || c === "C" || c === "D") {
-        const gateColors: Record<string, { main: string; inner: string }> = {
-          A: { main: "#ef4444", inner: "#fecaca" }, // Fire
-          B: { main: "#14b8a6", inner: "#99f6e4" }, // Water
-          C: { main: "#92400e", inner: "#f59e0b" }, // Earth
-          D: { main: "#38bdf8", inner: "#bae6fd" }, // Wind
-        };
-        const gc = gateColors[c];
-        ctx.fillStyle = gc.main;
-        ctx.fillRect(px, py, tileSize, tileSize);
-        ctx.fillStyle = gc.inner;
-        ctx.fillRect(px + 5, py + 5, tileSize - 10, tileSize - 10);
-        ctx.strokeStyle = "rgba(0,0,0,0.25)";
-        ctx.lineWidth = 2;
-        for (let i = 0; i < 3; i++) {
-          const gx = px + 8 + i * 8;
-          ctx.beginPath();
-          ctx.moveTo(gx, py + 4);
-          ctx.lineTo(gx, py + tileSize - 4);
-          ctx.stroke();
-        }
-        const charToId: Record<string, 1 | 2 | 3 | 4> = {
-          A: 1,
-          B: 2,
-          C: 3,
-          D: 4,
-        };
-        const pid = charToId[c];
-        if (gateReached[pid]) {
-          ctx.strokeStyle = "rgba(0,0,0,0.6)";
-          ctx.lineCap = "round";
-          ctx.lineJoin = "round";
-          ctx.lineWidth = 6;
-          ctx.beginPath();
-          ctx.moveTo(px + 7, py + tileSize - 10);
-          ctx.lineTo(px + tileSize / 2 - 2, py + tileSize - 7);
-          ctx.lineTo(px + tileSize - 7, py + 8);
-          ctx.stroke();
-          ctx.strokeStyle = "#ffffff";
-          ctx.lineWidth = 3.5;
-          ctx.beginPath();
-          ctx.moveTo(px + 7, py + tileSize - 10);
-          ctx.lineTo(px + tileSize / 2 - 2, py + tileSize - 7);
-          ctx.lineTo(px + tileSize - 7, py + 8);
-          ctx.stroke();
-        }
-      }
-    }
-  }
-}
 
 function useKeySet() {
   const pressed = useRef<Set<string>>(new Set());
@@ -440,6 +181,7 @@ function useKeySet() {
 
   useEffect(() => {
     const onDown = (e: KeyboardEvent) => {
+      if (isTyping(e)) return;
       const blockKeys = [
         "ArrowLeft",
         "ArrowRight",
@@ -469,91 +211,26 @@ function useKeySet() {
     };
   }, []);
 
-  return { pressed, doubleTap };
-}
-
-function createPlayers(
-  spawns: Record<number, Vec2>,
-  controls: Record<number, KeyBinding>
-): Player[] {
-  const size = { w: 22, h: 28 };
-  const mk = (
-    id: number,
-    name: string,
-    color: string,
-    maxAirJumps: number
-  ): Player => ({
-    id,
-    name,
-    color,
-    spawn: { x: spawns[id].x, y: spawns[id].y },
-    pos: { x: spawns[id].x, y: spawns[id].y },
-    vel: { x: 0, y: 0 },
-    w: size.w,
-    h: size.h,
-    onGround: false,
-    jumpLock: false,
-    alive: true,
-    exitReached: false,
-    controls: controls[id],
-    facing: 1,
-    maxAirJumps,
-    airJumpsLeft: maxAirJumps,
-    isDashing: false,
-    dashUntil: 0,
-    dashCooldownUntil: 0,
-    abilityCooldownUntil: 0,
-    nextStepFxTime: 0,
-  });
-  return [
-    mk(1, "Fire", "#ef4444", 0),
-    mk(2, "Water", "#14b8a6", 0),
-    mk(3, "Earth", "#92400e", 0),
-    mk(4, "Wind", "#38bdf8", 0),
-  ];
-}
-
-function solidAt(level: Level, x: number, y: number) {
-  const { tx, ty } = worldToTile(x, y, level.tileSize);
-  return isSolid(tileAt(level, tx, ty), level.doorOpen);
-}
-function tileCharAt(level: Level, x: number, y: number) {
-  const { tx, ty } = worldToTile(x, y, level.tileSize);
-  return tileAt(level, tx, ty);
-}
-function tileAt(level: Level, tx: number, ty: number) {
-  if (ty < 0 || ty >= level.h || tx < 0 || tx >= level.w) return "#";
-  return level.tiles[ty][tx];
-}
-function setTile(level: Level, tx: number, ty: number, ch: string) {
-  if (ty < 0 || ty >= level.h || tx < 0 || tx >= level.w) return;
-  level.tiles[ty] = replaceChar(level.tiles[ty], tx, ch);
-}
+  // Copy the current key state for one simulation step and clear the
+  // double-tap edges so each tap is only seen once
+  function takeSnapshot(): InputSnapshot {
+    const snapshot = {
+      pressed: new Set(pressed.current),
+      doubleTap: new Set(doubleTap.current),
+    };
+    doubleTap.current.clear();
+    return snapshot;
+  }
 
-function drawPlayer(ctx: CanvasRenderingContext2D, p: Player) {
-  const { x, y } = p.pos;
-  ctx.save();
-  ctx.translate(x, y);
-  ctx.fillStyle = p.color;
-  ctx.fillRect(-p.w / 2, -p.h / 2, p.w, p.h);
-  ctx.fillStyle = "#0b0b0b";
-  ctx.fillRect(-p.w / 4, -p.h / 4, 4, 4);
-  ctx.fillRect(p.w / 4 - 4, -p.h / 4, 4, 4);
-  ctx.fillStyle = "rgba(0,0,0,0.2)";
-  ctx.fillRect(-p.w / 2, p.h / 2 - 2, p.w, 4);
-  ctx.fillStyle = "rgba(255,255,255,0.5)";
-  ctx.fillRect(
-    p.facing === 1 ? p.w / 2 - 2 : -p.w / 2 - 2,
-    -p.h / 4,
-    2,
-    p.h / 2
-  );
-  ctx.restore();
+  return { pressed, doubleTap, takeSnapshot };
 }
 
-// Audio synthesis
-function useSound() {
+// Audio synthesis; prefs scales every sound and can silence them all
+function useSound(prefs: { current: AudioPrefs }) {
   const ctxRef = useRef<AudioContext | null>(null);
+  function master() {
+    return prefs.current.muted ? 0 : prefs.current.volume;
+  }
   function ensureCtx() {
     if (typeof window === "undefined") return null;
     if (!ctxRef.current) {
@@ -586,6 +263,8 @@ function useSound() {
     filterFreq?: number;
     decay?: number;
   }) {
+    volume *= master();
+    if (volume <= 0) return;
     const ctx = ensureCtx();
     if (!ctx) return;
     const bufferSize = Math.floor(duration * ctx.sampleRate);
@@ -634,6 +313,8 @@ function useSound() {
     type?: OscillatorType;
     sweep?: number;
   }) {
+    volume *= master();
+    if (volume <= 0) return;
     const ctx = ensureCtx();
     if (!ctx) return;
     const osc = ctx.createOscillator();
@@ -685,6 +366,23 @@ function useSound() {
         sweep: -500,
       });
     },
+    waterFreeze: () => {
+      playNoiseBurst({
+        duration: 0.14,
+        volume: 0.15,
+        type: "white",
+        filterType: "highpass",
+        filterFreq: 3000,
+        decay: 0.14,
+      });
+      playTone({
+        freq: 1300,
+        duration: 0.16,
+        volume: 0.08,
+        type: "triangle",
+        sweep: 500,
+      });
+    },
     earthThud: () =>
       playTone({
         freq: 140,
@@ -703,6 +401,16 @@ function useSound() {
         decay: 0.2,
       });
     },
+    windGust: () => {
+      playNoiseBurst({
+        duration: 0.35,
+        volume: 0.2,
+        type: "pink",
+        filterType: "bandpass",
+        filterFreq: 600,
+        decay: 0.35,
+      });
+    },
     jump: () =>
       playTone({
         freq: 420,
@@ -719,13 +427,25 @@ function useSound() {
         type: "triangle",
         sweep: -200,
       }),
+    checkpoint: () => {
+      playTone({
+        freq: 660,
+        duration: 0.12,
+        volume: 0.12,
+        type: "triangle",
+        sweep: 220,
+      });
+      playTone({
+        freq: 990,
+        duration: 0.2,
+        volume: 0.08,
+        type: "sine",
+      });
+    },
   };
 }
 
 // Particles helpers
-function lerp(a: number, b: number, t: number) {
-  return a + (b - a) * t;
-}
 function hexToRgb(hex: string) {
   const m = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
   if (!m) return { r: 255, g: 255, b: 255 };
@@ -746,47 +466,82 @@ function parseColor(c: string) {
   };
 }
 
-// Add a new helper to flood-fill connected dark holes (O) using 8-direction adjacency:
-function floodFillDarkToWater(level: Level, startTx: number, startTy: number) {
-  const q: Array<{ tx: number; ty: number }> = [{ tx: startTx, ty: startTy }];
-  const seen = new Set<string>();
-  let changed = 0;
-  while (q.length) {
-    const { tx, ty } = q.shift()!;
-    const key = `${tx},${ty}`;
-    if (seen.has(key)) continue;
-    seen.add(key);
-    if (tileAt(level, tx, ty) !== "O") continue;
-    setTile(level, tx, ty, "W");
-    changed++;
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        if (dx === 0 && dy === 0) continue;
-        const nx = tx + dx;
-        const ny = ty + dy;
-        if (nx < 0 || ny < 0 || nx >= level.w || ny >= level.h) continue;
-        if (tileAt(level, nx, ny) === "O") q.push({ tx: nx, ty: ny });
-      }
-    }
-  }
-  return changed;
+const PLAYER_NAMES: Record<number, string> = Object.fromEntries(
+  ELEMENTS.map((e) => [e.id, e.name])
+);
+// Literal class names so Tailwind keeps them
+const GRID_COLS: Record<number, string> = {
+  3: "grid-cols-3",
+  4: "grid-cols-4",
+  5: "grid-cols-5",
+};
+
+const PLAYER_COLORS: Record<number, string> = Object.fromEntries(
+  ELEMENTS.map((e) => [e.id, e.color])
+);
+
+// The same value for every player
+function perElement<T>(value: T): Record<number, T> {
+  return Object.fromEntries(ELEMENT_IDS.map((id) => [id, value]));
 }
 
+const PARTY_SIZES = Array.from({ length: MAX_PARTY_SIZE }, (_, i) => i + 1);
+
+const DEFAULT_BINDINGS: Record<number, KeyBinding> = {
+  1: { left: "a", right: "d", jump: "w", action: "s" },
+  2: { left: "j", right: "l", jump: "i", action: "k" },
+  3: {
+    left: "ArrowLeft",
+    right: "ArrowRight",
+    jump: "ArrowUp",
+    action: "ArrowDown",
+  },
+  4: { left: "z", right: "c", jump: "x", action: "b" },
+};
+
+const DEFAULT_SWAP_KEYS: Record<number, string> = {
+  1: "q",
+  2: "u",
+  3: "Enter",
+  4: "v",
+};
+
+// What a first visit starts with; stored saves fall back to it field by field
+const DEFAULT_SAVE: SaveData = {
+  version: SAVE_VERSION,
+  bindings: DEFAULT_BINDINGS,
+  swapKeys: DEFAULT_SWAP_KEYS,
+  currentLevel: 0,
+  progress: DEFAULT_PROGRESS,
+  audio: DEFAULT_AUDIO,
+  display: DEFAULT_DISPLAY,
+  team: "Team",
+  records: EMPTY_RECORDS,
+};
+
 export default function FourPlayerPlatformer() {
   // Controls
-  const [bindings, setBindings] = useState<Record<number, KeyBinding>>({
-    1: { left: "a", right: "d", jump: "w", action: "s" },
-    2: { left: "j", right: "l", jump: "i", action: "k" },
-    3: {
-      left: "ArrowLeft",
-      right: "ArrowRight",
-      jump: "ArrowUp",
-      action: "ArrowDown",
-    },
-    4: { left: "z", right: "c", jump: "x", action: "" },
-  });
+  const [bindings, setBindings] =
+    useState<Record<number, KeyBinding>>(DEFAULT_BINDINGS);
+  // Humans at the keyboard; with fewer than four, each seat swaps between
+  // several characters
+  const [partySize, setPartySize] = useState(MAX_PARTY_SIZE);
+  const [swapKeys, setSwapKeys] =
+    useState<Record<number, string>>(DEFAULT_SWAP_KEYS);
+  // Preferences and cleared levels; persisted with the bindings
+  const [audioPrefs, setAudioPrefs] = useState(DEFAULT_AUDIO);
+  const [displayPrefs, setDisplayPrefs] = useState(DEFAULT_DISPLAY);
+  const [progress, setProgress] = useState(DEFAULT_PROGRESS);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Speedrun leaderboards and the name runs are filed under
+  const [team, setTeam] = useState(DEFAULT_SAVE.team);
+  const [records, setRecords] = useState(EMPTY_RECORDS);
+  const saveInputRef = useRef<HTMLInputElement | null>(null);
+  // Characters the computer plays (offline only)
+  const [botPlayers, setBotPlayers] = useState<Record<number, boolean>>({});
   const [showSettings, setShowSettings] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [showTimes, setShowTimes] = useState(false);
 
   const modalCountRef = useRef(0);
   const pausedBeforeModalRef = useRef(false);
@@ -794,98 +549,334 @@ export default function FourPlayerPlatformer() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const wrapperRef = useRef<HTMLDivElement | null>(null);
   const input = useKeySet();
-  const sound = useSound();
-
-  // Plate states
-  const platesRef = useRef<Map<string, PlateState>>(new Map());
-  function initPlates(level: Level) {
-    const m = new Map<string, PlateState>();
-    for (let y = 0; y < level.h; y++) {
-      for (let x = 0; x < level.w; x++) {
-        if (level.tiles[y][x] === "P") {
-          m.set(`${x},${y}`, { tx: x, ty: y, pressed: false, pressTime: 0 });
-        }
-      }
-    }
-    platesRef.current = m;
-  }
+  const gamepads = useGamepads();
+  const touchInput = useTouchInput();
+  const audioPrefsRef = useRef(audioPrefs);
+  audioPrefsRef.current = audioPrefs;
+  const displayPrefsRef = useRef(displayPrefs);
+  displayPrefsRef.current = displayPrefs;
+  const sound = useSound(audioPrefsRef);
+  const net = useNetSession({ bindings, onHostMessage: handleHostMessage });
+  // Latest bindings for the game loop, which only rebuilds on pause/win
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  const swapKeysRef = useRef(swapKeys);
+  swapKeysRef.current = swapKeys;
+  const partySizeRef = useRef(partySize);
+  partySizeRef.current = partySize;
+  const partyRef = useRef<Party>(createParty(MAX_PARTY_SIZE, ELEMENT_IDS));
+  const botPlayersRef = useRef(botPlayers);
+  botPlayersRef.current = botPlayers;
+  const botsRef = useRef<Bot[]>([]);
+  // Keys held on the previous tick, to catch swap key presses
+  const prevPressedRef = useRef<ReadonlySet<string>>(new Set());
+  // Online client: unacknowledged local ticks, the host's bindings (what
+  // the host simulation expects) and what the other players were holding
+  const predictorRef = useRef(createPredictor());
+  const hostBindingsRef = useRef<Record<number, KeyBinding> | null>(null);
+  const othersPressedRef = useRef<ReadonlySet<string>>(new Set());
+  // Online host: ticks (or paused frames) since the last snapshot
+  const snapshotCounterRef = useRef(0);
+
+  // Controller per player slot; new controllers fill the first free slot
+  const [padAssignments, setPadAssignments] = useState<GamepadAssignments>(() =>
+    perElement(null)
+  );
+  const padAssignmentsRef = useRef<GamepadAssignments>(padAssignments);
   useEffect(() => {
-    initPlates(levelRef.current);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    padAssignmentsRef.current = padAssignments;
+  }, [padAssignments]);
+
+  // On-screen controls; touch devices start with two players facing each other
+  const [touchLayout, setTouchLayout] = useState<TouchLayout>(() =>
+    perElement(null)
+  );
+  useEffect(() => {
+    if (window.matchMedia?.("(pointer: coarse)").matches) {
+      const [first, second] = ELEMENT_IDS;
+      setTouchLayout({
+        ...perElement(null),
+        [first]: "bottom",
+        [second]: "top",
+      });
+    }
   }, []);
 
+  useEffect(() => {
+    setPadAssignments((prev) => {
+      const next = { ...prev };
+      for (const pad of gamepads.pads) {
+        if (Object.values(next).includes(pad.index)) continue;
+        const free = ELEMENT_IDS.find((pid) => next[pid] === null);
+        if (free === undefined) break;
+        next[free] = pad.index;
+      }
+      return next;
+    });
+  }, [gamepads.pads]);
+
   // Particles
   const particlesRef = useRef<Particle[]>([]);
   const MAX_PARTICLES = 4000;
 
-  // update controls if bindings change
-  const tempPlatformsRef = useRef<TempPlatform[]>([]);
-  const prevActionDownRef = useRef<Record<number, boolean>>({
-    1: false,
-    2: false,
-    3: false,
-    4: false,
-  });
   const levelAdvancingRef = useRef<boolean>(false);
 
+  // update controls if bindings change
   useEffect(() => {
-    playersRef.current = playersRef.current.map((p) => ({
-      ...p,
-      controls: bindings[p.id],
-    }));
+    gameRef.current = {
+      ...gameRef.current,
+      players: gameRef.current.players.map((p) => ({
+        ...p,
+        controls: bindings[p.id],
+      })),
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [bindings]);
 
   const [paused, setPaused] = useState(false);
   const [won, setWon] = useState(false);
   const [deaths, setDeaths] = useState(0);
+  const deathsRef = useRef(deaths);
+  deathsRef.current = deaths;
   const [currentLevel, setCurrentLevel] = useState(0);
   // Live mirror of currentLevel for use inside the RAF loop
   const currentLevelRef = useRef<number>(0);
   useEffect(() => {
     currentLevelRef.current = currentLevel;
   }, [currentLevel]);
-  const [hasCompletedLevel1, setHasCompletedLevel1] = useState(false);
-  const [showKeybinds, setShowKeybinds] = useState<Record<number, boolean>>({
-    1: true,
-    2: true,
-    3: true,
-    4: true,
-  });
+  const hasCompletedLevel1 = progress.best[0] !== undefined;
+  const [showKeybinds, setShowKeybinds] = useState<Record<number, boolean>>(
+    () => perElement(true)
+  );
   // Mirror showKeybinds into a ref to avoid stale closures in the game loop
   const showKeybindsRef = useRef<Record<number, boolean>>(showKeybinds);
   useEffect(() => {
     showKeybindsRef.current = showKeybinds;
   }, [showKeybinds]);
 
-  const levelRef = useRef<Level>(createLevel(currentLevel));
-  const playersRef = useRef<Player[]>([]);
+  // Persistence. Nothing is stored until the stored save has been loaded,
+  // so the defaults rendered on mount never overwrite it. This is state, not
+  // a ref: Strict Mode runs the effects twice, and the second store must
+  // still see the render from before the load.
+  const [saveLoaded, setSaveLoaded] = useState(false);
+  function currentSave(): SaveData {
+    return {
+      version: SAVE_VERSION,
+      bindings,
+      swapKeys,
+      currentLevel,
+      progress,
+      audio: audioPrefs,
+      display: displayPrefs,
+      team,
+      records,
+    };
+  }
+  function applySave(save: SaveData) {
+    setBindings(save.bindings);
+    setSwapKeys(save.swapKeys);
+    setAudioPrefs(save.audio);
+    setDisplayPrefs(save.display);
+    setProgress(save.progress);
+    setTeam(save.team);
+    setRecords(save.records);
+    setCurrentLevel(
+      Math.min(
+        save.currentLevel,
+        save.progress.unlockedLevel,
+        BUILTIN_LEVELS.length - 1
+      )
+    );
+  }
+  useEffect(() => {
+    try {
+      const save = readSave(window.localStorage, DEFAULT_SAVE);
+      if (save) applySave(save);
+    } catch (err) {
+      setSaveError(
+        `Stored save ignored: ${err instanceof Error ? err.message : err}`
+      );
+    }
+    setSaveLoaded(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+  useEffect(() => {
+    if (!saveLoaded) return;
+    try {
+      writeSave(window.localStorage, currentSave());
+    } catch (err) {
+      setSaveError(
+        `Could not store the save: ${err instanceof Error ? err.message : err}`
+      );
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    saveLoaded,
+    bindings,
+    swapKeys,
+    currentLevel,
+    progress,
+    audioPrefs,
+    displayPrefs,
+    team,
+    records,
+  ]);
+
+  // Speedrun: the running timer, its splits for the results table and when
+  // it went on the campaign board (so it is not compared against itself)
+  const timerRef = useRef<SpeedrunTimer>(createTimer(0));
+  const timerTextRef = useRef<HTMLSpanElement | null>(null);
+  const [runStartLevel, setRunStartLevel] = useState(0);
+  const [runSplits, setRunSplits] = useState<number[]>([]);
+  const [runFiledAt, setRunFiledAt] = useState<number | null>(null);
+  const teamRef = useRef(team);
+  teamRef.current = team;
+  const runBaseline = records.campaign.find((e) => e.date !== runFiledAt);
+  function startRun(level: number) {
+    timerRef.current = createTimer(level);
+    setRunStartLevel(level);
+    setRunSplits([]);
+    setRunFiledAt(null);
+  }
+  // A run carries on through level advances; landing on any other level
+  // (picking one, loading a save, a finished campaign) starts a new one
+  function syncRun(level: number) {
+    const timer = timerRef.current;
+    if (timer.startLevel + timer.splits.length !== level) startRun(level);
+  }
+
+  // Simulation state; replaced wholesale by stepGame each frame
+  const gameRef = useRef<GameState>(createGameState(currentLevel, bindings));
+  // State before the latest tick; rendering interpolates between the two
+  const prevGameRef = useRef<GameState>(gameRef.current);
+  const cameraRef = useRef<Camera>(createCamera());
+  // Canvas backing-store pixels per CSS pixel, set by resizeCanvas
+  const dprRef = useRef(1);
+
+  // Input of every tick since the current attempt started, for export
+  const recordingRef = useRef<Recording>(
+    createRecording(currentLevel, bindings)
+  );
+  // A loaded replay drives the simulation instead of the keyboard
+  const replayRef = useRef<{
+    recording: Recording;
+    playback: ReturnType<typeof createPlayback>;
+  } | null>(null);
+  const [replaying, setReplaying] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Level editor; a test-played draft replaces the current level
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<LevelFile | null>(null);
+  const draftRef = useRef<LevelFile | null>(null);
+  // Validation result for the level currently being played, or for the one
+  // just refused because of errors
+  const [levelIssues, setLevelIssues] = useState<ValidationIssue[]>([]);
+  // Set when a refused level hands the selection back to the running one,
+  // so that attempt carries on instead of restarting
+  const keepAttemptRef = useRef(false);
+
+  // Fresh simulation for a level, restarting any replay that targets it
+  function startAttempt(levelIndex: number) {
+    // Online clients take their state from the host's snapshots
+    if (net.roleRef.current === "client") return;
+    const replay = replayRef.current;
+    if (replay && replay.recording.level !== levelIndex) {
+      replayRef.current = null;
+      setReplaying(false);
+    }
+    const attemptLevel = replayRef.current
+      ? replayRef.current.recording.levelFile
+      : draftRef.current ?? undefined;
+    // Like the editor's Test Play, a level with errors is never started.
+    // Drafts and replays are checked before they get here. The errors show
+    // in the top bar and the level that was running keeps going.
+    const issues = validateLevel(attemptLevel ?? BUILTIN_LEVELS[levelIndex]);
+    setLevelIssues(issues);
+    if (hasErrors(issues)) {
+      const running = gameRef.current.levelIndex;
+      if (running !== levelIndex) {
+        keepAttemptRef.current = true;
+        setCurrentLevel(running);
+      }
+      return;
+    }
+    const attemptBindings = replayRef.current
+      ? replayRef.current.recording.bindings
+      : bindings;
+    if (replayRef.current) {
+      replayRef.current.playback = createPlayback(replayRef.current.recording);
+    }
+    gameRef.current = createGameState(
+      levelIndex,
+      attemptBindings,
+      attemptLevel
+    );
+    prevGameRef.current = gameRef.current;
+    resetParty();
+    recordingRef.current = createRecording(
+      levelIndex,
+      attemptBindings,
+      attemptLevel
+    );
+    accumulatorRef.current = 0;
+    particlesRef.current = [];
+    // Drafts and replays may not match the previous level's size
+    resizeCanvas();
+  }
+
+  // Online games give every character its own keys and have no bots
+  function resetParty() {
+    const offline = net.roleRef.current === "offline";
+    const playerIds = gameRef.current.players.map((p) => p.id);
+    const botIds = offline
+      ? playerIds.filter((id) => botPlayersRef.current[id])
+      : [];
+    partyRef.current = createParty(
+      offline ? partySizeRef.current : MAX_PARTY_SIZE,
+      playerIds,
+      botIds
+    );
+    botsRef.current = botIds.map((id) => createBot(id));
+  }
+  useEffect(resetParty, [partySize, botPlayers, net.role]);
+
+  function setDraftLevel(level: LevelFile | null) {
+    draftRef.current = level;
+    setDraft(level);
+  }
 
   // Update level when currentLevel changes
   useEffect(() => {
-    const newLevel = createLevel(currentLevel);
-    levelRef.current = newLevel;
-    tempPlatformsRef.current = [];
-    initPlates(newLevel);
-    const { spawns: newSpawns } = findSpawnsAndExits(newLevel);
-    const freshPlayers = createPlayers(newSpawns, bindings);
-    playersRef.current = freshPlayers;
-    prevActionDownRef.current = { 1: false, 2: false, 3: false, 4: false };
-    particlesRef.current = [];
+    if (keepAttemptRef.current) {
+      keepAttemptRef.current = false;
+      return;
+    }
+    startAttempt(currentLevel);
+    syncRun(currentLevel);
     levelAdvancingRef.current = false;
 
     // Show keybinds only on level 1 (hardcoded)
     const shouldShowKeybinds = currentLevel === 0;
-    setShowKeybinds({
-      1: shouldShowKeybinds,
-      2: shouldShowKeybinds,
-      3: shouldShowKeybinds,
-      4: shouldShowKeybinds,
-    });
+    setShowKeybinds(perElement(shouldShowKeybinds));
   }, [currentLevel, bindings, hasCompletedLevel1]);
 
+  // Leaving an online game as a client: back to a local attempt
+  const prevNetRoleRef = useRef(net.role);
+  useEffect(() => {
+    if (prevNetRoleRef.current === "client" && net.role !== "client") {
+      predictorRef.current.reset();
+      hostBindingsRef.current = null;
+      othersPressedRef.current = new Set();
+      startAttempt(currentLevelRef.current);
+      setPaused(false);
+    }
+    prevNetRoleRef.current = net.role;
+  }, [net.role]);
+
   const handleModalOpenChange = useCallback(
-    (next: boolean, which: "settings" | "help") => {
+    (next: boolean, which: "settings" | "help" | "times") => {
       const prevCount = modalCountRef.current;
       const nextCount = prevCount + (next ? 1 : -1);
       modalCountRef.current = nextCount;
@@ -897,6 +888,7 @@ export default function FourPlayerPlatformer() {
         setPaused(pausedBeforeModalRef.current);
       }
       if (which === "settings") setShowSettings(next);
+      else if (which === "times") setShowTimes(next);
       else setShowHelp(next);
     },
     [paused]
@@ -904,26 +896,28 @@ export default function FourPlayerPlatformer() {
 
   const lastTimeRef = useRef<number>(0);
   const rafRef = useRef<number>(0);
+  // Unsimulated time carried between frames, in seconds
+  const accumulatorRef = useRef<number>(0);
 
   const resizeCanvas = useCallback(() => {
     const wrap = wrapperRef.current;
     const canvas = canvasRef.current;
     if (!wrap || !canvas) return;
-    const level = levelRef.current;
-    const targetW = level.w * level.tileSize;
-    const targetH = level.h * level.tileSize;
-    const maxW = wrap.clientWidth;
-    const maxH = wrap.clientHeight;
-    const scale = Math.min(maxW / targetW, maxH / targetH);
-    const cssW = Math.floor(targetW * scale);
-    const cssH = Math.floor(targetH * scale);
+    const level = gameRef.current.level;
+    // The canvas fills the play area; the camera decides what part of the
+    // level it shows
+    const cssW = wrap.clientWidth;
+    const cssH = wrap.clientHeight;
     const dpr = Math.min(window.devicePixelRatio || 1, 2);
     canvas.style.width = cssW + "px";
     canvas.style.height = cssH + "px";
-    canvas.width = Math.floor(targetW * dpr);
-    canvas.height = Math.floor(targetH * dpr);
-    const ctx = canvas.getContext("2d");
-    if (ctx) ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    canvas.width = Math.floor(cssW * dpr);
+    canvas.height = Math.floor(cssH * dpr);
+    dprRef.current = dpr;
+    const cam = cameraRef.current;
+    cam.viewW = cssW;
+    cam.viewH = cssH;
+    snapToPlayers(cam, level, gameRef.current.players);
   }, []);
 
   useEffect(() => {
@@ -941,15 +935,8 @@ export default function FourPlayerPlatformer() {
   }, [resizeCanvas]);
 
   const resetGame = useCallback(() => {
-    const level = createLevel(currentLevel);
-    levelRef.current = level;
-    tempPlatformsRef.current = [];
-    initPlates(level);
-    const { spawns: newSpawns } = findSpawnsAndExits(level);
-    const fresh = createPlayers(newSpawns, bindings);
-    playersRef.current = fresh;
-    prevActionDownRef.current = { 1: false, 2: false, 3: false, 4: false };
-    particlesRef.current = [];
+    startAttempt(currentLevel);
+    syncRun(currentLevel);
     levelAdvancingRef.current = false;
     setWon(false);
     setDeaths(0);
@@ -957,36 +944,150 @@ export default function FourPlayerPlatformer() {
 
     // Show keybinds only on level 1 (hardcoded)
     const shouldShowKeybinds = currentLevel === 0;
-    setShowKeybinds({
-      1: shouldShowKeybinds,
-      2: shouldShowKeybinds,
-      3: shouldShowKeybinds,
-      4: shouldShowKeybinds,
-    });
+    setShowKeybinds(perElement(shouldShowKeybinds));
 
     lastTimeRef.current = performance.now();
   }, [bindings, currentLevel, hasCompletedLevel1]);
 
   const resetAllProgress = useCallback(() => {
+    setDraftLevel(null);
     levelAdvancingRef.current = false;
     setCurrentLevel(0);
-    setHasCompletedLevel1(false);
+    setProgress(DEFAULT_PROGRESS);
+    startRun(0);
     setWon(false);
     setDeaths(0);
     setPaused(false);
-    setShowKeybinds({ 1: true, 2: true, 3: true, 4: true });
+    setShowKeybinds(perElement(true));
   }, []);
 
   const handleLevelChange = useCallback((newLevel: number) => {
+    setDraftLevel(null);
     levelAdvancingRef.current = false;
     setCurrentLevel(newLevel);
     setWon(false);
     setPaused(false);
   }, []);
 
+  const openEditor = useCallback(() => {
+    setEditing(true);
+    setPaused(true);
+  }, []);
+
+  const testPlayDraft = useCallback(
+    (level: LevelFile) => {
+      setDraftLevel(level);
+      setEditing(false);
+      levelAdvancingRef.current = false;
+      startAttempt(currentLevel);
+      setWon(false);
+      setDeaths(0);
+      setPaused(false);
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [currentLevel, bindings]
+  );
+
+  const leaveDraft = useCallback(() => {
+    setDraftLevel(null);
+    setEditing(false);
+    levelAdvancingRef.current = false;
+    startAttempt(currentLevel);
+    setWon(false);
+    setDeaths(0);
+    setPaused(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentLevel, bindings]);
+
+  const saveReplay = useCallback(() => {
+    const rec = recordingRef.current;
+    const blob = new Blob([serializeRecording(rec)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `replay-level${rec.level + 1}-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  function playRecording(recording: Recording) {
+    if (!recording.levelFile && !BUILTIN_LEVELS[recording.level]) {
+      throw new Error(`Replay is for unknown level ${recording.level + 1}`);
+    }
+    if (recording.levelFile && hasErrors(validateLevel(recording.levelFile))) {
+      throw new Error("Replay's level has errors and can't be played");
+    }
+    replayRef.current = {
+      recording,
+      playback: createPlayback(recording),
+    };
+    setReplaying(true);
+    setReplayError(null);
+    levelAdvancingRef.current = false;
+    setWon(false);
+    setDeaths(0);
+    setPaused(false);
+    if (recording.level === currentLevel) startAttempt(recording.level);
+    else setCurrentLevel(recording.level);
+  }
+
+  const loadReplay = useCallback(
+    async (file: File) => {
+      try {
+        playRecording(parseRecording(await file.text()));
+      } catch (err) {
+        setReplayError(err instanceof Error ? err.message : String(err));
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [currentLevel]
+  );
+
+  function exportSave() {
+    const blob = new Blob([serializeSave(currentSave())], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `save-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async function importSave(file: File) {
+    try {
+      applySave(parseSave(await file.text(), DEFAULT_SAVE));
+      setSaveError(null);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  // Play a solver-found solution of an editor draft
+  const watchSolution = useCallback(
+    (recording: Recording) => {
+      setDraftLevel(recording.levelFile ?? null);
+      setEditing(false);
+      playRecording(recording);
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [currentLevel]
+  );
+
+  const stopReplay = useCallback(() => {
+    replayRef.current = null;
+    setReplaying(false);
+  }, []);
+
   // keyboard: R reset, P/Esc toggle pause
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
+      // The editor owns the keyboard while it is open; online clients
+      // cannot reset or pause the host's game
+      if (editing || net.roleRef.current === "client" || isTyping(e)) return;
       if (e.key.toLowerCase() === "r") {
         e.preventDefault();
         resetGame();
@@ -997,17 +1098,7 @@ export default function FourPlayerPlatformer() {
     };
     window.addEventListener("keydown", handler);
     return () => window.removeEventListener("keydown", handler);
-  }, [resetGame]);
-
-  function updateDoorOpen(level: Level, players: Player[]) {
-    // Keep the door logic as "2 players currently standing on plates"
-    let onPlates = 0;
-    for (const p of players) {
-      const ch = tileCharAt(level, p.pos.x, p.pos.y + p.h / 2 + 1);
-      if (isPlate(ch)) onPlates++;
-    }
-    level.doorOpen = onPlates >= 2;
-  }
+  }, [resetGame, editing]);
 
   // Particle spawners
   function spawnFireBurstAt(x: number, y: number) {
@@ -1054,6 +1145,28 @@ export default function FourPlayerPlatformer() {
       });
     }
   }
+  function spawnFrostAt(x: number, y: number) {
+    const count = 10 * 5;
+    for (let i = 0; i < count; i++) {
+      const a = Math.random() * Math.PI * 2;
+      const sp = 40 + Math.random() * 90;
+      particlesRef.current.push({
+        x,
+        y,
+        vx: Math.cos(a) * sp,
+        vy: Math.sin(a) * sp,
+        life: 0,
+        maxLife: 0.4 + Math.random() * 0.3,
+        size: 2 + Math.random() * 3,
+        colorStart: "rgba(255,255,255,0.95)",
+        colorEnd: "rgba(186,230,253,0.1)",
+        gravity: 60,
+        damping: 0.9,
+        shape: "square",
+        additive: true,
+      });
+    }
+  }
   function spawnEarthDustAt(x: number, y: number) {
     const count = 16 * 5;
     for (let i = 0; i < count; i++) {
@@ -1120,6 +1233,58 @@ export default function FourPlayerPlatformer() {
       });
     }
   }
+  // Streaks of air along the gust, which also sweeps up the particles
+  // already inside it
+  function spawnGustAt(x: number, y: number, dx: number, dy: number) {
+    const level = gameRef.current.level;
+    for (const prt of particlesRef.current) {
+      if (!inGust(level, { x, y }, dx, dy, prt.x, prt.y)) continue;
+      prt.vx += dx * 320;
+      prt.vy += dy * 320;
+    }
+    const count = 8 * 5;
+    for (let i = 0; i < count; i++) {
+      const a = Math.atan2(dy, dx) + (Math.random() - 0.5) * 1.1;
+      const sp = 260 + Math.random() * 220;
+      particlesRef.current.push({
+        x: x + dx * 10,
+        y: y + dy * 10,
+        vx: Math.cos(a) * sp,
+        vy: Math.sin(a) * sp,
+        life: 0,
+        maxLife: 0.3 + Math.random() * 0.25,
+        size: 3 + Math.random() * 4,
+        colorStart: "rgba(224,242,254,0.8)",
+        colorEnd: "rgba(56,189,248,0.0)",
+        gravity: 0,
+        damping: 0.95,
+        shape: "circle",
+        additive: true,
+      });
+    }
+  }
+  function spawnSmokeAt(x: number, y: number) {
+    const count = 6 * 5;
+    for (let i = 0; i < count; i++) {
+      const a = -Math.PI / 2 + (Math.random() - 0.5) * 1.2;
+      const sp = 40 + Math.random() * 70;
+      particlesRef.current.push({
+        x,
+        y,
+        vx: Math.cos(a) * sp,
+        vy: Math.sin(a) * sp,
+        life: 0,
+        maxLife: 0.6 + Math.random() * 0.4,
+        size: 6 + Math.random() * 6,
+        colorStart: "rgba(113,113,122,0.8)",
+        colorEnd: "rgba(212,212,216,0.0)",
+        gravity: -40,
+        damping: 0.96,
+        shape: "circle",
+        additive: false,
+      });
+    }
+  }
   function spawnPlatePressAt(x: number, y: number) {
     const count = 14;
     for (let i = 0; i < count; i++) {
@@ -1142,84 +1307,46 @@ export default function FourPlayerPlatformer() {
       });
     }
   }
-  // Footsteps
-  function spawnFireStep(x: number, y: number, dir: number) {
-    const count = 4 * 5;
+  function spawnCheckpointAt(x: number, y: number, color: string) {
+    const { r, g, b } = hexToRgb(color);
+    const count = 20;
     for (let i = 0; i < count; i++) {
+      const a = -Math.PI / 2 + (Math.random() - 0.5) * 1.6;
+      const sp = 80 + Math.random() * 160;
       particlesRef.current.push({
-        x: x - dir * (4 + Math.random() * 4),
+        x: x + (Math.random() - 0.5) * 16,
         y,
-        vx: (Math.random() - 0.6) * 70 - dir * 20,
-        vy: -40 - Math.random() * 40,
+        vx: Math.cos(a) * sp,
+        vy: Math.sin(a) * sp,
         life: 0,
-        maxLife: 0.28 + Math.random() * 0.16,
+        maxLife: 0.5 + Math.random() * 0.3,
         size: 4 + Math.random() * 4,
-        colorStart: "#fb923c",
-        colorEnd: "rgba(239,68,68,0.1)",
-        gravity: 500,
-        damping: 0.9,
-        shape: "square",
-        additive: true,
-      });
-    }
-  }
-  function spawnWaterStep(x: number, y: number, dir: number) {
-    const count = 5 * 5;
-    for (let i = 0; i < count; i++) {
-      particlesRef.current.push({
-        x: x - dir * (4 + Math.random() * 4),
-        y,
-        vx: (Math.random() - 0.5) * 60 - dir * 10,
-        vy: -30 - Math.random() * 30,
-        life: 0,
-        maxLife: 0.32 + Math.random() * 0.18,
-        size: 4 + Math.random() * 4,
-        colorStart: "rgba(14,165,233,0.9)",
-        colorEnd: "rgba(125,211,252,0.05)",
-        gravity: 800,
+        colorStart: color,
+        colorEnd: `rgba(${r},${g},${b},0)`,
+        gravity: 200,
         damping: 0.9,
         shape: "circle",
-        additive: false,
-      });
-    }
-  }
-  function spawnEarthStep(x: number, y: number, dir: number) {
-    const count = 5 * 5;
-    for (let i = 0; i < count; i++) {
-      particlesRef.current.push({
-        x: x - dir * (4 + Math.random() * 4),
-        y,
-        vx: (Math.random() - 0.5) * 80 - dir * 15,
-        vy: -20 - Math.random() * 30,
-        life: 0,
-        maxLife: 0.35 + Math.random() * 0.2,
-        size: 4 + Math.random() * 6,
-        colorStart: "#92400e",
-        colorEnd: "rgba(245,158,11,0.05)",
-        gravity: 900,
-        damping: 0.88,
-        shape: "square",
-        additive: false,
+        additive: true,
       });
     }
   }
-  function spawnWindStep(x: number, y: number, dir: number) {
-    const count = 4 * 5;
-    for (let i = 0; i < count; i++) {
+  // Footsteps, in the walking player's element
+  function spawnStep(effect: StepEffect, x: number, y: number, dir: number) {
+    for (let i = 0; i < effect.count; i++) {
       particlesRef.current.push({
         x: x - dir * (4 + Math.random() * 4),
         y,
-        vx: (Math.random() - 0.5) * 60 - dir * 10,
-        vy: -10 - Math.random() * 20,
+        vx: (Math.random() - 0.5) * effect.spread - dir * effect.kick,
+        vy: -effect.rise[0] - Math.random() * effect.rise[1],
         life: 0,
-        maxLife: 0.25 + Math.random() * 0.15,
-        size: 4 + Math.random() * 4,
-        colorStart: "rgba(56,189,248,0.6)",
-        colorEnd: "rgba(56,189,248,0.0)",
-        gravity: 0,
-        damping: 0.92,
-        shape: "circle",
-        additive: true,
+        maxLife: effect.life[0] + Math.random() * effect.life[1],
+        size: effect.size[0] + Math.random() * effect.size[1],
+        colorStart: effect.colorStart,
+        colorEnd: effect.colorEnd,
+        gravity: effect.gravity,
+        damping: effect.damping,
+        shape: effect.shape,
+        additive: effect.additive,
       });
     }
   }
@@ -1232,415 +1359,225 @@ export default function FourPlayerPlatformer() {
     }
   }
 
-  function doFireAction(level: Level, p: Player) {
-    const aheadX = p.pos.x + p.facing * (p.w / 2 + 4);
-    const aheadY = p.pos.y;
-    const { tx: tx1, ty: ty1 } = worldToTile(aheadX, aheadY, level.tileSize);
-    const { tx: tx2, ty: ty2 } = worldToTile(p.pos.x, p.pos.y, level.tileSize);
-    const candidates: Array<[number, number]> = [
-      [tx1, ty1],
-      [tx2, ty2],
-      [tx2, ty2 + 1],
-      [tx2, ty2 - 1],
-    ];
-    let brokeAny = false;
-    for (const [tx, ty] of candidates) {
-      const ch = tileAt(level, tx, ty);
-      if (ch === "b" || ch === "X") {
-        setTile(level, tx, ty, ".");
-        const cx = tx * TILE + TILE / 2;
-        const cy = ty * TILE + TILE / 2;
-        spawnFireBurstAt(cx, cy);
-        if (ch === "X") spawnEarthCrumbleAt(cx, cy);
-        brokeAny = true;
-      }
-    }
-    if (brokeAny) sound.fireBreak();
-    tempPlatformsRef.current = tempPlatformsRef.current.filter(
-      (tp) => tileAt(level, tp.tx, tp.ty) === "X"
-    );
-    trimParticles();
-  }
+  function handleLevelComplete() {
+    // The host decides when an online game moves on
+    if (net.roleRef.current === "client") return;
+    if (levelAdvancingRef.current) return;
+    levelAdvancingRef.current = true;
 
-  // Replace the doWaterAction with a version that flood-fills from any adjacent O tiles (including diagonals). Spawns splashes at a few seed points and plays SFX once.
-  function doWaterAction(level: Level, p: Player) {
-    const { tx, ty } = worldToTile(p.pos.x, p.pos.y, level.tileSize);
-    // Collect seeds from the 3x3 neighborhood (including center)
-    const seeds: Array<{ tx: number; ty: number }> = [];
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        const ux = tx + dx;
-        const uy = ty + dy;
-        if (tileAt(level, ux, uy) === "O") seeds.push({ tx: ux, ty: uy });
-      }
-    }
-    if (seeds.length === 0) return;
-    // Flood-fill from each unique seed
-    const seenSeed = new Set<string>();
-    let totalChanged = 0;
-    for (const s of seeds) {
-      const key = `${s.tx},${s.ty}`;
-      if (seenSeed.has(key)) continue;
-      seenSeed.add(key);
-      totalChanged += floodFillDarkToWater(level, s.tx, s.ty);
-    }
-    if (totalChanged > 0) {
-      // Spawn splashes at up to a handful of seeds to visualize the conversion
-      const splashSeeds = seeds.slice(0, 6);
-      for (const s of splashSeeds) {
-        const cx = s.tx * TILE + TILE / 2;
-        const cy = s.ty * TILE + TILE / 2;
-        spawnWaterSplashAt(cx, cy);
-      }
-      sound.waterSplash();
+    if (draftRef.current) {
+      // Test play of an editor draft: stop here instead of advancing
+      setWon(true);
+      setPaused(true);
+      return;
     }
-    trimParticles();
-  }
 
-  // returns true if a platform was placed (for cooldown)
-  function doEarthAction(level: Level, p: Player): boolean {
-    const now = performance.now();
-    const under = worldToTile(p.pos.x, p.pos.y + p.h / 2 + 4, level.tileSize);
-    const ahead = worldToTile(
-      p.pos.x + p.facing * (p.w / 2 + 8),
-      p.pos.y,
-      level.tileSize
-    );
-    const canPlace = (tx: number, ty: number) => {
-      const ch = tileAt(level, tx, ty);
-      return ch === "." || ch === "O" || ch === "W" || isColoredHole(ch);
-    };
-    let placedAt: { tx: number; ty: number } | null = null;
-    if (canPlace(under.tx, under.ty)) {
-      setTile(level, under.tx, under.ty, "X");
-      tempPlatformsRef.current.push({
-        tx: under.tx,
-        ty: under.ty,
-        expiresAt: now + 1500,
-      });
-      placedAt = { tx: under.tx, ty: under.ty };
-    } else if (canPlace(ahead.tx, ahead.ty)) {
-      setTile(level, ahead.tx, ahead.ty, "X");
-      tempPlatformsRef.current.push({
-        tx: ahead.tx,
-        ty: ahead.ty,
-        expiresAt: now + 7000,
-      });
-      placedAt = { tx: ahead.tx, ty: ahead.ty };
-    }
-    if (placedAt) {
-      sound.earthThud();
-      const cx = placedAt.tx * TILE + TILE / 2;
-      const cy = placedAt.ty * TILE + TILE / 2;
-      spawnEarthDustAt(cx, cy);
-      if (tempPlatformsRef.current.length > 12) {
-        const oldest = tempPlatformsRef.current.shift();
-        if (oldest) {
-          const ocx = oldest.tx * TILE + TILE / 2;
-          const ocy = oldest.ty * TILE + TILE / 2;
-          spawnEarthCrumbleAt(ocx, ocy);
-          setTile(level, oldest.tx, oldest.ty, ".");
+    const finishedLevel = currentLevelRef.current;
+    // Watching a replay proves nothing about the players at the keyboard
+    if (!replayRef.current) {
+      const timer = timerRef.current;
+      if (timer.started) {
+        recordSplit(timer);
+        const run = { ...timer, splits: [...timer.splits] };
+        const date = Date.now();
+        setRunSplits(run.splits);
+        setRecords((prev) =>
+          submitSplit(prev, run, teamRef.current, BUILTIN_LEVELS.length, date)
+        );
+        if (
+          run.startLevel === 0 &&
+          run.splits.length === BUILTIN_LEVELS.length
+        ) {
+          setRunFiledAt(date);
         }
       }
-      trimParticles();
-      return true;
-    }
-    return false;
-  }
-
-  function moveAndCollide(level: Level, p: Player, dt: number) {
-    let nx = p.pos.x + p.vel.x * dt;
-    let ny = p.pos.y + p.vel.y * dt;
-
-    const halfW = p.w / 2;
-    const halfH = p.h / 2;
-
-    // Horizontal collision
-    if (p.vel.x > 0) {
-      if (
-        solidAt(level, nx + halfW, p.pos.y - halfH) ||
-        solidAt(level, nx + halfW, p.pos.y + halfH - 1)
-      ) {
-        const tx = Math.floor((nx + halfW) / level.tileSize);
-        nx = tx * level.tileSize - halfW - 0.01;
-        p.vel.x = 0;
-      }
-    } else if (p.vel.x < 0) {
-      if (
-        solidAt(level, nx - halfW, p.pos.y - halfH) ||
-        solidAt(level, nx - halfW, p.pos.y + halfH - 1)
-      ) {
-        const tx = Math.floor((nx - halfW) / level.tileSize) + 1;
-        nx = tx * level.tileSize + halfW + 0.01;
-        p.vel.x = 0;
-      }
+      const time = gameRef.current.time;
+      setProgress((prev) =>
+        recordClear(
+          prev,
+          finishedLevel,
+          deathsRef.current,
+          time,
+          BUILTIN_LEVELS.length
+        )
+      );
     }
-
-    // Vertical collision
-    p.onGround = false;
-    if (p.vel.y > 0) {
-      if (
-        solidAt(level, nx - halfW + 1, ny + halfH) ||
-        solidAt(level, nx + halfW - 1, ny + halfH)
-      ) {
-        const ty = Math.floor((ny + halfH) / level.tileSize);
-        ny = ty * level.tileSize - halfH - 0.01;
-        p.vel.y = 0;
-        p.onGround = true;
-        p.jumpLock = false;
-        p.airJumpsLeft = p.maxAirJumps;
-      }
-    } else if (p.vel.y < 0) {
-      if (
-        solidAt(level, nx - halfW + 1, ny - halfH) ||
-        solidAt(level, nx + halfW - 1, ny - halfH)
-      ) {
-        const ty = Math.floor((ny - halfH) / level.tileSize) + 1;
-        ny = ty * level.tileSize + halfH + 0.01;
-        p.vel.y = 0;
-      }
+    if (finishedLevel === 0) {
+      // Completing level 1 - hide keybinds
+      setShowKeybinds(perElement(false));
     }
 
-    p.pos.x = nx;
-    p.pos.y = ny;
-  }
-
-  function tryStartWindDash(p: Player) {
-    if (p.id !== 4) return;
-    const now = performance.now();
-    const { left, right, jump } = p.controls;
-    const dtap = input.doubleTap.current;
-    if (now < p.dashCooldownUntil) {
-      dtap.delete(left);
-      dtap.delete(right);
-      dtap.delete(jump);
-      return;
-    }
-    if (p.isDashing) return;
-    const tappedKey = [left, right, jump].find((k) => dtap.has(k));
-    if (!tappedKey) return;
-    dtap.delete(tappedKey);
-    const pressed = input.pressed.current;
-    let dx = tappedKey === left ? -1 : tappedKey === right ? 1 : 0;
-    let dy = tappedKey === jump ? -1 : 0;
-    if (pressed.has(left)) dx -= 1;
-    if (pressed.has(right)) dx += 1;
-    if (pressed.has(jump)) dy -= 1;
-    const len = Math.hypot(dx, dy);
-    if (len === 0) {
-      dx = p.facing;
-      dy = 0;
+    if (finishedLevel < BUILTIN_LEVELS.length - 1) {
+      // Advance to next level immediately (no timeout)
+      setCurrentLevel((prev) => Math.min(prev + 1, BUILTIN_LEVELS.length - 1));
+      setDeaths(0);
     } else {
-      dx /= len;
-      dy /= len;
+      // All levels completed!
+      setWon(true);
+      setPaused(true);
     }
-    p.isDashing = true;
-    p.dashUntil = now + DASH_DURATION * 1000;
-    p.dashCooldownUntil = now + DASH_COOLDOWN * 1000;
-    p.vel.x = dx * DASH_SPEED;
-    p.vel.y = dy * DASH_SPEED;
-    sound.windDash();
-    spawnWindTrailAt(p.pos.x, p.pos.y, "#38bdf8");
-    trimParticles();
-  }
 
-  function pressPlateIfStanding(level: Level, p: Player) {
-    // Check center and feet tiles for a plate and latch it
-    const center = worldToTile(p.pos.x, p.pos.y, level.tileSize);
-    const feet = worldToTile(p.pos.x, p.pos.y + p.h / 2 + 2, level.tileSize);
-    const candidates = [center, feet];
-    for (const { tx, ty } of candidates) {
-      if (tileAt(level, tx, ty) === "P") {
-        const key = `${tx},${ty}`;
-        const m = platesRef.current;
-        const st = m.get(key);
-        if (st && !st.pressed) {
-          st.pressed = true;
-          st.pressTime = performance.now();
-          m.set(key, st);
-          const cx = tx * TILE + TILE / 2;
-          const cy = ty * TILE + TILE / 2;
-          spawnPlatePressAt(cx, cy);
-          sound.platePress();
-          trimParticles();
-        }
-      }
-    }
+    // Reset the flag after a short delay to prevent multiple triggers
+    setTimeout(() => {
+      levelAdvancingRef.current = false;
+    }, 500);
   }
 
-  function updatePlayer(level: Level, p: Player, dt: number) {
-    const pressed = input.pressed.current;
-    const { left, right, jump, action } = p.controls;
-    const leftDown = pressed.has(left);
-    const rightDown = pressed.has(right);
-    const jumpDown = pressed.has(jump);
-    const actionDown = action ? pressed.has(action) : false;
-    const prevAction = prevActionDownRef.current[p.id] || false;
-    const justPressedAction = actionDown && !prevAction;
-    prevActionDownRef.current[p.id] = actionDown;
-
-    // Hide keybinds overlay after completing the first level instead of on key press
-    // (The overlay hiding will be handled in the level progression logic)
-
-    // Liquids
-    const centerChar = tileCharAt(level, p.pos.x, p.pos.y);
-    const inLiquid = isLiquidForPlayer(centerChar, p.id);
-
-    // Wind dash
-    if (p.id === 4) {
-      const now = performance.now();
-      if (p.isDashing && now >= p.dashUntil) {
-        p.isDashing = false;
-      }
-      if (!p.isDashing) {
-        tryStartWindDash(p);
-      } else {
-        spawnWindTrailAt(p.pos.x, p.pos.y, "rgba(56,189,248,0.5)");
-      }
-    }
-
-    // Horizontal movement
-    if (!p.isDashing) {
-      const speed = inLiquid ? SWIM_SPEED : MOVE_SPEED;
-      if (leftDown && !rightDown) {
-        p.vel.x = -speed;
-        p.facing = -1;
-      } else if (rightDown && !leftDown) {
-        p.vel.x = speed;
-        p.facing = 1;
-      } else {
-        if (p.onGround && !inLiquid) p.vel.x *= FRICTION;
-        else p.vel.x *= inLiquid ? WATER_DRAG_X : AIR_DRAG;
-        if (Math.abs(p.vel.x) < 6) p.vel.x = 0;
-      }
-    }
-
-    // Vertical physics
-    if (!p.isDashing) {
-      if (inLiquid) {
-        p.vel.y += GRAVITY * 0.15 * dt;
-        if (jumpDown) p.vel.y -= SWIM_UP_FORCE * dt;
-        p.vel.y = clamp(p.vel.y, SWIM_MAX_UP, SWIM_MAX_DOWN);
-      } else {
-        p.vel.y += GRAVITY * dt;
-        p.vel.y = clamp(p.vel.y, -JUMP_SPEED, MAX_FALL);
-      }
-    }
-
-    // Jump (on land)
-    if (!p.isDashing && !inLiquid) {
-      if (jumpDown) {
-        if (p.onGround && !p.jumpLock) {
-          p.vel.y = -JUMP_SPEED;
-          p.onGround = false;
-          p.jumpLock = true;
-          if (p.id !== 4) sound.jump();
-        } else if (!p.onGround && p.airJumpsLeft > 0) {
-          p.vel.y = -JUMP_SPEED * 0.9;
-          p.airJumpsLeft -= 1;
-        }
+  // Online client: rewind to the host's state and replay our own ticks the
+  // host has not processed yet
+  function handleHostMessage(msg: HostMessage) {
+    if (msg.type === "welcome") {
+      hostBindingsRef.current = msg.bindings;
+      predictorRef.current.reset();
+    } else if (msg.type === "snapshot") {
+      const snapshot = decodeState(msg.state);
+      const prev = gameRef.current;
+      const hostBindings = hostBindingsRef.current ?? {};
+      const ownKeys = bindingKeys(
+        net
+          .localSlots()
+          .map((id) => hostBindings[id])
+          .filter(Boolean)
+      );
+      othersPressedRef.current = new Set(
+        msg.pressed.filter((k) => !ownKeys.has(k))
+      );
+      gameRef.current = predictorRef.current.reconcile(
+        snapshot,
+        msg.ack,
+        othersPressedRef.current
+      );
+      prevGameRef.current = gameRef.current;
+      if (
+        snapshot.level.w !== prev.level.w ||
+        snapshot.level.h !== prev.level.h
+      ) {
+        resizeCanvas();
       }
-      if (!jumpDown && p.onGround) {
-        p.jumpLock = false;
+      if (snapshot.levelIndex !== currentLevelRef.current) {
+        setCurrentLevel(snapshot.levelIndex);
       }
+      setPaused(msg.paused);
     }
+  }
 
-    moveAndCollide(level, p, dt);
-
-    // Plate press check
-    pressPlateIfStanding(level, p);
-
-    // Hazard check: kill if center or feet tile is hazardous (fix side-entry issue)
-    const belowChar = tileCharAt(level, p.pos.x, p.pos.y + p.h / 2 + 2);
-    if (isHazardFor(centerChar, p.id) || isHazardFor(belowChar, p.id)) {
-      p.pos = { x: p.spawn.x, y: p.spawn.y };
-      p.vel = { x: 0, y: 0 };
-      p.alive = true;
-      p.exitReached = false;
-      p.airJumpsLeft = p.maxAirJumps;
-      p.isDashing = false;
-      p.dashUntil = 0;
-      setDeaths((d) => d + 1);
-    }
+  // Translate this browser's input into the host's keys for the slots we
+  // play, so the host can merge it like local input
+  function toHostInput(local: InputSnapshot) {
+    const hostBindings = hostBindingsRef.current;
+    if (!hostBindings) return EMPTY_INPUT;
+    return mergeInputs(
+      ...net
+        .localSlots()
+        .map((id) =>
+          remapInput(local, bindingsRef.current[id], hostBindings[id])
+        )
+    );
+  }
 
-    // Abilities
-    if (justPressedAction) {
-      if (p.id === 1) {
-        doFireAction(level, p);
-      } else if (p.id === 2) {
-        doWaterAction(level, p);
-      } else if (p.id === 3) {
-        const now = performance.now();
-        if (now >= p.abilityCooldownUntil) {
-          const placed = doEarthAction(level, p);
-          if (placed) {
-            p.abilityCooldownUntil = now + EARTH_COOLDOWN * 1000;
+  // Turn simulation events into particles and sounds
+  function handleGameEvents(events: GameEvent[]) {
+    for (const ev of events) {
+      const elementSoundName = elementSound(ev);
+      if (elementSoundName) sound[elementSoundName]();
+      switch (ev.type) {
+        case "fireBreak":
+          for (const { tx, ty, ch } of ev.tiles) {
+            const cx = tx * TILE + TILE / 2;
+            const cy = ty * TILE + TILE / 2;
+            spawnFireBurstAt(cx, cy);
+            if (ch === "X") spawnEarthCrumbleAt(cx, cy);
+            if (ch === "I") spawnWaterSplashAt(cx, cy);
+          }
+          break;
+        case "waterFill":
+          for (const s of ev.seeds) {
+            spawnWaterSplashAt(s.tx * TILE + TILE / 2, s.ty * TILE + TILE / 2);
+          }
+          break;
+        case "waterFreeze":
+          for (const t of ev.tiles.slice(0, 8)) {
+            spawnFrostAt(t.tx * TILE + TILE / 2, t.ty * TILE + TILE / 2);
+          }
+          break;
+        case "iceMelt":
+          spawnWaterSplashAt(ev.tx * TILE + TILE / 2, ev.ty * TILE + TILE / 2);
+          break;
+        case "earthPlace":
+          spawnEarthDustAt(ev.tx * TILE + TILE / 2, ev.ty * TILE + TILE / 2);
+          break;
+        case "earthCrumble":
+          spawnEarthCrumbleAt(ev.tx * TILE + TILE / 2, ev.ty * TILE + TILE / 2);
+          break;
+        case "earthDig":
+          spawnEarthDustAt(ev.tx * TILE + TILE / 2, ev.ty * TILE + TILE / 2);
+          break;
+        case "crateBurn":
+          spawnFireBurstAt(ev.x, ev.y);
+          break;
+        case "windDash":
+          spawnWindTrailAt(ev.x, ev.y, "#38bdf8");
+          break;
+        case "windTrail":
+          spawnWindTrailAt(ev.x, ev.y, "rgba(56,189,248,0.5)");
+          break;
+        case "windGust":
+          spawnGustAt(ev.x, ev.y, ev.dx, ev.dy);
+          for (const t of ev.doused) {
+            spawnSmokeAt(t.tx * TILE + TILE / 2, t.ty * TILE + TILE / 2);
           }
+          break;
+        case "platePress":
+          spawnPlatePressAt(ev.tx * TILE + TILE / 2, ev.ty * TILE + TILE / 2);
+          sound.platePress();
+          break;
+        case "checkpoint":
+          spawnCheckpointAt(
+            ev.tx * TILE + TILE / 2,
+            ev.ty * TILE + TILE / 2,
+            ev.shared ? "#eab308" : PLAYER_COLORS[ev.playerId]
+          );
+          sound.checkpoint();
+          break;
+        case "step": {
+          const element = elementById(ev.playerId);
+          if (element) spawnStep(element.step, ev.x, ev.y, ev.dir);
+          break;
         }
+        case "death":
+          setDeaths((d) => d + 1);
+          break;
+        case "levelComplete":
+          handleLevelComplete();
+          break;
       }
     }
-
-    // Step particles
-    const now = performance.now();
-    const speedX = Math.abs(p.vel.x);
-    const stepThreshold = 60;
-    if (
-      !inLiquid &&
-      p.onGround &&
-      !p.isDashing &&
-      speedX > stepThreshold &&
-      (p.nextStepFxTime ?? 0) <= now
-    ) {
-      const dir = p.vel.x === 0 ? p.facing : p.vel.x > 0 ? 1 : -1;
-      const footY = p.pos.y + p.h / 2 - 2;
-      const footX = p.pos.x;
-      if (p.id === 1) spawnFireStep(footX, footY, dir);
-      else if (p.id === 2) spawnWaterStep(footX, footY, dir);
-      else if (p.id === 3) spawnEarthStep(footX, footY, dir);
-      else if (p.id === 4) spawnWindStep(footX, footY, dir);
-      p.nextStepFxTime = now + 90;
-      trimParticles();
-    }
-
-    // Exit check (still set exitReached for UI; win gating handled globally)
-    const { exits } = findSpawnsAndExits(level);
-    const exitList = exits[p.id];
-    p.exitReached = false;
-    for (const ex of exitList) {
-      const rectE = { x: ex.x, y: ex.y, w: level.tileSize, h: level.tileSize };
-      const rectP = {
-        x: p.pos.x - p.w / 2,
-        y: p.pos.y - p.h / 2,
-        w: p.w,
-        h: p.h,
-      };
-      if (rectIntersect(rectP, rectE)) {
-        p.exitReached = true;
-        break;
-      }
-    }
+    trimParticles();
   }
-
-  function drawKeybindOverlays(ctx: CanvasRenderingContext2D) {
-    const players = playersRef.current;
+  function drawKeybindOverlays(
+    ctx: CanvasRenderingContext2D,
+    players: Player[]
+  ) {
     const currentBindings = bindings;
     const overlayVisible = showKeybindsRef.current; // read from ref to avoid stale state
+    if (!displayPrefsRef.current.keyHints) return;
 
     for (const p of players) {
       if (!overlayVisible[p.id]) continue;
 
-      const { x, y } = p.pos;
-      const { left, right, jump, action } = currentBindings[p.id];
-
-      // Player names and abilities
-      const playerInfo = {
-        1: { name: "Fire", ability: "Break barriers" },
-        2: { name: "Water", ability: "Fill dark holes" },
-        3: { name: "Earth", ability: "Create platforms" },
-        4: { name: "Wind", ability: "Double-tap to dash" },
-      };
+      // In a smaller party only the character each seat is steering shows
+      // that seat's keys
+      const party = partyRef.current;
+      const seat = seatOf(party, p.id);
+      if (seat === undefined || activeCharacter(party, seat) !== p.id) {
+        continue;
+      }
+      const swappable = party.members[seat - 1].length > 1;
+      const element = elementById(p.id);
+      if (!element) continue;
 
-      const info = playerInfo[p.id as keyof typeof playerInfo];
+      const { x, y } = p.pos;
+      const { left, right, jump, action } = currentBindings[seat];
 
       // Draw background box
       ctx.save();
@@ -1648,31 +1585,15 @@ export default function FourPlayerPlatformer() {
       ctx.strokeStyle = p.color;
       ctx.lineWidth = 2;
 
-      let boxWidth = 180;
-      switch (p.id) {
-        case 1:
-          boxWidth = 120;
-          break;
-        case 2:
-          boxWidth = 120;
-
-          break;
-        case 3:
-          boxWidth = 120;
-
-          break;
-        case 4:
-          boxWidth = 120;
-          break;
-        default:
-          break;
-      }
-      const boxHeight = p.id === 4 ? 90 : 90; // Wind player has no action key
+      const boxWidth = 120;
+      // Wind lists its dash under the action
+      const lines = 3 + (element.dash ? 1 : 0) + (swappable ? 1 : 0);
+      const boxHeight = 45 + lines * 15;
       let boxX = x - boxWidth / 2;
       let boxY = y - p.h / 2 - boxHeight - 10;
 
       // Keep overlay on screen
-      const level = levelRef.current;
+      const level = gameRef.current.level;
       boxX = Math.max(
         5,
         Math.min(boxX, level.w * level.tileSize - boxWidth - 5)
@@ -1689,10 +1610,10 @@ export default function FourPlayerPlatformer() {
 
       // Player name and ability
       ctx.fillStyle = p.color;
-      ctx.fillText(info.name, boxX + boxWidth / 2, boxY + 20);
+      ctx.fillText(element.name, boxX + boxWidth / 2, boxY + 20);
       ctx.fillStyle = "#ffffff";
       ctx.font = "14px monospace";
-      ctx.fillText(info.ability, boxX + boxWidth / 2, boxY + 35);
+      ctx.fillText(element.ability, boxX + boxWidth / 2, boxY + 35);
 
       // Keybinds
       ctx.font = "14px monospace";
@@ -1716,10 +1637,25 @@ export default function FourPlayerPlatformer() {
       );
       ctx.fillText(`Jump: ${formatKey(jump)}`, leftMargin, startY + 15);
 
-      if (p.id !== 4 && action) {
-        ctx.fillText(`Action: ${formatKey(action)}`, leftMargin, startY + 30);
-      } else if (p.id === 4) {
-        ctx.fillText("Double-tap Z/C/X", leftMargin, startY + 30);
+      let lineY = startY + 30;
+      if (action) {
+        ctx.fillText(`Action: ${formatKey(action)}`, leftMargin, lineY);
+        lineY += 15;
+      }
+      if (element.dash) {
+        ctx.fillText(
+          `Dash: 2x ${formatKey(left)}/${formatKey(right)}/${formatKey(jump)}`,
+          leftMargin,
+          lineY
+        );
+        lineY += 15;
+      }
+      if (swappable) {
+        ctx.fillText(
+          `Swap: ${formatKey(swapKeysRef.current[seat])}`,
+          leftMargin,
+          lineY
+        );
       }
 
       ctx.restore();
@@ -1735,8 +1671,11 @@ export default function FourPlayerPlatformer() {
         arr.splice(i, 1);
         continue;
       }
-      p.vx *= p.damping;
-      p.vy = p.vy * p.damping + p.gravity * dt;
+      const damping = dragFactor(p.damping, dt);
+      p.px = p.x;
+      p.py = p.y;
+      p.vx *= damping;
+      p.vy = p.vy * damping + p.gravity * dt;
       p.x += p.vx * dt;
       p.y += p.vy * dt;
     }
@@ -1750,104 +1689,192 @@ export default function FourPlayerPlatformer() {
       if (!canvas || !ctx) return;
 
       const last = lastTimeRef.current || t;
-      const dt = clamp((t - last) / 1000, 0, 1 / 30);
+      const frameDt = Math.max(0, (t - last) / 1000);
       lastTimeRef.current = t;
 
-      const level = levelRef.current;
-
       if (!paused && !won) {
-        // Expire temporary platforms
-        const now = performance.now();
-        const remaining: TempPlatform[] = [];
-        for (const tp of tempPlatformsRef.current) {
-          if (now >= tp.expiresAt) {
-            if (tileAt(level, tp.tx, tp.ty) === "X") {
-              const cx = tp.tx * TILE + TILE / 2;
-              const cy = tp.ty * TILE + TILE / 2;
-              spawnEarthCrumbleAt(cx, cy);
-              setTile(level, tp.tx, tp.ty, ".");
+        // Run whole fixed ticks; the remainder carries over to the next frame
+        accumulatorRef.current = Math.min(
+          accumulatorRef.current + frameDt,
+          SIM_DT * MAX_STEPS_PER_FRAME
+        );
+        if (accumulatorRef.current >= SIM_DT) {
+          const replay = replayRef.current;
+          const role = net.roleRef.current;
+          // Double taps belong to the first tick only
+          let liveInput: InputSnapshot = replay
+            ? { pressed: new Set(), doubleTap: new Set() }
+            : mergeInputs(
+                input.takeSnapshot(),
+                gamepads.poll(
+                  padAssignmentsRef.current,
+                  gameRef.current.players
+                ),
+                touchInput.takeSnapshot()
+              );
+          if (!replay && role === "offline") {
+            partyRef.current = applySwaps(
+              partyRef.current,
+              liveInput.pressed,
+              prevPressedRef.current,
+              swapKeysRef.current
+            );
+            prevPressedRef.current = liveInput.pressed;
+            liveInput = partyInput(
+              partyRef.current,
+              liveInput,
+              bindingsRef.current
+            );
+          }
+          if (role === "client") {
+            liveInput = toHostInput(liveInput);
+          } else if (role === "host") {
+            // Keys of slots handed to remote players are theirs alone
+            const own = net.localSlots().map((id) => bindingsRef.current[id]);
+            liveInput = filterInput(liveInput, bindingKeys(own));
+          }
+          const sent: NetInput[] = [];
+          while (accumulatorRef.current >= SIM_DT) {
+            let stepInput = liveInput;
+            if (replay) {
+              const recorded = replay.playback.next();
+              if (!recorded) {
+                // Replay finished: hand control back and hold the final frame
+                replayRef.current = null;
+                setReplaying(false);
+                setPaused(true);
+                accumulatorRef.current = 0;
+                break;
+              }
+              stepInput = recorded;
+            } else {
+              liveInput = { pressed: liveInput.pressed, doubleTap: new Set() };
+            }
+            if (role === "host") {
+              stepInput = mergeInputs(stepInput, net.takeRemoteInput());
+            }
+            // Only people start the clock, so it runs before the bots
+            if (!replay && role !== "client" && !draftRef.current) {
+              tickTimer(timerRef.current, stepInput, SIM_DT);
+            }
+            // Bots press their characters' own keys, so they are recorded
+            // and replayed like everyone else
+            if (!replay && role === "offline" && botsRef.current.length) {
+              const humans = activeCharacters(partyRef.current);
+              stepInput = mergeInputs(
+                stepInput,
+                ...botsRef.current.map((bot) =>
+                  bot.think(gameRef.current, humans)
+                )
+              );
+            }
+            if (role === "client") {
+              sent.push(predictorRef.current.track(stepInput));
+              stepInput = mergeInputs(
+                { pressed: othersPressedRef.current, doubleTap: new Set() },
+                stepInput
+              );
+            } else {
+              recordTick(recordingRef.current, stepInput);
+            }
+            prevGameRef.current = gameRef.current;
+            const next = stepGame(gameRef.current, stepInput, SIM_DT);
+            gameRef.current = next;
+            handleGameEvents(next.events);
+            updateParticles(SIM_DT);
+            accumulatorRef.current -= SIM_DT;
+            if (
+              role === "host" &&
+              ++snapshotCounterRef.current % SNAPSHOT_INTERVAL === 0
+            ) {
+              net.sendSnapshots(next, stepInput.pressed, false);
             }
-          } else {
-            remaining.push(tp);
           }
+          net.sendInputs(sent);
         }
-        tempPlatformsRef.current = remaining;
-
-        updateDoorOpen(level, playersRef.current);
-        for (const p of playersRef.current) updatePlayer(level, p, dt);
-        updateParticles(dt);
-
-        // Win condition: all players at their gates AND all plates pressed
-        const allPlayersAtGates = playersRef.current.every(
-          (p) => p.exitReached
-        );
-        let allPlatesPressed = true;
-        platesRef.current.forEach((st) => {
-          if (!st.pressed) allPlatesPressed = false;
-        });
-
-        // Debug: Log win condition status
-        if (currentLevelRef.current === 1) {
-          // Level 2 (0-indexed)
-          const playersAtGates = playersRef.current
-            .map((p) => `P${p.id}: ${p.exitReached}`)
-            .join(", ");
-          const plateStatus = Array.from(platesRef.current.entries())
-            .map(([key, st]) => `${key}: ${st.pressed}`)
-            .join(", ");
-          console.log(
-            `Level 2 Win Check - Players: [${playersAtGates}], Plates: [${plateStatus}], All gates: ${allPlayersAtGates}, All plates: ${allPlatesPressed}`
-          );
-        }
-
+      } else {
+        accumulatorRef.current = 0;
+        // Keep clients in sync (and paused) while the host is paused
         if (
-          allPlayersAtGates &&
-          allPlatesPressed &&
-          !levelAdvancingRef.current
+          net.roleRef.current === "host" &&
+          ++snapshotCounterRef.current % SNAPSHOT_INTERVAL === 0
         ) {
-          levelAdvancingRef.current = true;
-
-          const finishedLevel = currentLevelRef.current;
-          if (finishedLevel === 0) {
-            // Completing level 1 - mark it as completed and hide keybinds
-            setHasCompletedLevel1(true);
-            setShowKeybinds({ 1: false, 2: false, 3: false, 4: false });
-          }
-
-          if (finishedLevel < LEVEL_MAPS.length - 1) {
-            // Advance to next level immediately (no timeout)
-            setCurrentLevel((prev) =>
-              Math.min(prev + 1, LEVEL_MAPS.length - 1)
-            );
-            setDeaths(0);
-          } else {
-            // All levels completed!
-            setWon(true);
-            setPaused(true);
-          }
-
-          // Reset the flag after a short delay to prevent multiple triggers
-          setTimeout(() => {
-            levelAdvancingRef.current = false;
-          }, 500);
+          net.sendSnapshots(gameRef.current, new Set(), true);
         }
       }
 
+      if (timerTextRef.current) {
+        timerTextRef.current.textContent = formatRunTime(
+          timerRef.current.elapsed
+        );
+      }
+
+      const game = gameRef.current;
+      const level = game.level;
+      const alpha = accumulatorRef.current / SIM_DT;
+      const players = interpolateBodies(
+        prevGameRef.current.players,
+        game.players,
+        alpha
+      );
+
       // Build reached map for gate checkmarks
-      const gateReached: Record<1 | 2 | 3 | 4, boolean> = {
-        1: !!playersRef.current.find((p) => p.id === 1)?.exitReached,
-        2: !!playersRef.current.find((p) => p.id === 2)?.exitReached,
-        3: !!playersRef.current.find((p) => p.id === 3)?.exitReached,
-        4: !!playersRef.current.find((p) => p.id === 4)?.exitReached,
-      };
+      const gateReached: Record<number, boolean> = Object.fromEntries(
+        game.players.map((p) => [p.id, p.exitReached])
+      );
 
       // Draw
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-      drawLevel(ctx, level, gateReached, platesRef.current, performance.now());
-      for (const p of playersRef.current) drawPlayer(ctx, p);
+      followPlayers(cameraRef.current, level, players, frameDt);
+      applyCamera(ctx, cameraRef.current, dprRef.current);
+      const checkpoints = new Set<string>();
+      for (const p of game.players) {
+        if (p.checkpoint) checkpoints.add(p.checkpoint);
+      }
+      const switchesOn = new Set(
+        game.switches.filter((sw) => sw.on).map((sw) => `${sw.tx},${sw.ty}`)
+      );
+      drawLevel(
+        ctx,
+        level,
+        gateReached,
+        game.plates,
+        game.time,
+        checkpoints,
+        switchesOn
+      );
+      drawEntities(
+        ctx,
+        interpolateEntities(prevGameRef.current.entities, game.entities, alpha)
+      );
+      drawCrates(
+        ctx,
+        interpolateBodies(prevGameRef.current.crates, game.crates, alpha)
+      );
+      for (const p of players) drawPlayer(ctx, p);
+      for (const p of game.players) {
+        const action = elementById(p.id)?.action;
+        if (!action?.target || !action.steering?.(game, p)) continue;
+        const { tx, ty } = action.target(game, p);
+        drawAimCursor(ctx, tx, ty, level.tileSize, p.color);
+      }
+      for (const p of players) {
+        const cooldown = elementById(p.id)?.action.cooldown;
+        if (!cooldown) continue;
+        const left = (p.abilityCooldownUntil - game.time) / 1000;
+        drawCooldown(ctx, p, left / cooldown);
+      }
+      const party = partyRef.current;
+      if (party.members.some((chars) => chars.length > 1)) {
+        const active = activeCharacters(party);
+        for (const p of players) {
+          if (active.includes(p.id)) drawActiveMarker(ctx, p);
+        }
+      }
 
       // Draw keybind overlays for players who haven't pressed keys yet
-      drawKeybindOverlays(ctx);
+      drawKeybindOverlays(ctx, players);
 
       // Particles over players
       {
@@ -1859,22 +1886,28 @@ export default function FourPlayerPlatformer() {
           const r = Math.floor(lerp(c1.r, c2.r, tt));
           const g = Math.floor(lerp(c1.g, c2.g, tt));
           const b = Math.floor(lerp(c1.b, c2.b, tt));
-          const alpha = 1 - tt;
+          const fade = 1 - tt;
           if (prt.additive) ctx.globalCompositeOperation = "lighter";
           else ctx.globalCompositeOperation = "source-over";
           const s = prt.size * (1 - tt);
-          ctx.fillStyle = `rgba(${r},${g},${b},${alpha})`;
+          const x = lerp(prt.px ?? prt.x, prt.x, alpha);
+          const y = lerp(prt.py ?? prt.y, prt.y, alpha);
+          ctx.fillStyle = `rgba(${r},${g},${b},${fade})`;
           if (prt.shape === "circle") {
             ctx.beginPath();
-            ctx.arc(prt.x, prt.y, s, 0, Math.PI * 2);
+            ctx.arc(x, y, s, 0, Math.PI * 2);
             ctx.fill();
           } else {
-            ctx.fillRect(prt.x - s / 2, prt.y - s / 2, s, s);
+            ctx.fillRect(x - s / 2, y - s / 2, s, s);
           }
         }
         ctx.globalCompositeOperation = "source-over";
       }
 
+      if (displayPrefsRef.current.offscreenArrows) {
+        drawOffscreenArrows(ctx, cameraRef.current, players, dprRef.current);
+      }
+
       rafRef.current = requestAnimationFrame(loop);
     },
     [paused, won]
@@ -1889,7 +1922,7 @@ export default function FourPlayerPlatformer() {
   // capture rebinding
   const [capturing, setCapturing] = useState<{
     pid: number;
-    field: keyof KeyBinding;
+    field: keyof KeyBinding | "swap";
   } | null>(null);
   useEffect(() => {
     if (!capturing) return;
@@ -1897,16 +1930,30 @@ export default function FourPlayerPlatformer() {
       e.preventDefault();
       if (e.key === "Meta" || e.key === "OS") return;
       const { pid, field } = capturing;
-      setBindings((prev) => ({
-        ...prev,
-        [pid]: { ...prev[pid], [field]: e.key },
-      }));
+      if (field === "swap") {
+        setSwapKeys((prev) => ({ ...prev, [pid]: e.key }));
+      } else {
+        setBindings((prev) => ({
+          ...prev,
+          [pid]: { ...prev[pid], [field]: e.key },
+        }));
+      }
       setCapturing(null);
     };
     window.addEventListener("keydown", handler, { once: true });
     return () => window.removeEventListener("keydown", handler as any);
   }, [capturing]);
 
+  // Characters behind each row of the Controls dialog
+  const seatCharacters =
+    net.role !== "offline"
+      ? [[1], [2], [3], [4]]
+      : createParty(
+          partySize,
+          gameRef.current.players.map((p) => p.id),
+          ELEMENT_IDS.filter((id) => botPlayers[id])
+        ).members;
+
   return (
     <div className="fixed inset-0 flex flex-col">
       {/* Top bar */}
@@ -1942,6 +1989,60 @@ export default function FourPlayerPlatformer() {
               Reset All Progress
             </Button>
 
+            <OnlineLobby
+              net={net}
+              colors={PLAYER_COLORS}
+              names={PLAYER_NAMES}
+            />
+
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={net.role !== "offline"}
+              onClick={openEditor}
+            >
+              <Pencil className="mr-2 h-4 w-4" />
+              Level Editor
+            </Button>
+            {draft && (
+              <Button size="sm" variant="outline" onClick={leaveDraft}>
+                Leave Draft
+              </Button>
+            )}
+
+            {/* Replays */}
+            <Button size="sm" variant="outline" onClick={saveReplay}>
+              <Download className="mr-2 h-4 w-4" />
+              Save Replay
+            </Button>
+            {replaying ? (
+              <Button size="sm" variant="default" onClick={stopReplay}>
+                <Square className="mr-2 h-4 w-4" />
+                Stop Replay
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={net.role !== "offline"}
+                onClick={() => replayInputRef.current?.click()}
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                Load Replay
+              </Button>
+            )}
+            <input
+              ref={replayInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) loadReplay(file);
+                e.target.value = "";
+              }}
+            />
+
             {/* Controls modal */}
             <Dialog
               open={showSettings}
@@ -1953,58 +2054,150 @@ export default function FourPlayerPlatformer() {
                   Controls
                 </Button>
               </DialogTrigger>
-              <DialogContent className="max-w-lg">
+              <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>Controls</DialogTitle>
                   <DialogDescription>
                     Click a control and press a key to rebind. Note: OS/Meta/Fn
-                    keys can&apos;t be captured.
+                    keys can&apos;t be captured. Gamepads: stick/D-pad move, A
+                    jump, X action, RB dash (Wind).
                   </DialogDescription>
                 </DialogHeader>
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <Label htmlFor="party-size" className="font-medium">
+                    Party size
+                  </Label>
+                  <select
+                    id="party-size"
+                    className="rounded-md border bg-background px-2 py-1 text-sm"
+                    value={net.role === "offline" ? partySize : MAX_PARTY_SIZE}
+                    disabled={net.role !== "offline"}
+                    onChange={(e) => setPartySize(Number(e.target.value))}
+                  >
+                    {PARTY_SIZES.map((n) => (
+                      <option key={n} value={n}>
+                        {n === 1 ? "1 player" : `${n} players`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <Label className="font-medium">Computer plays</Label>
+                  <div className="flex gap-1">
+                    {ELEMENTS.map(({ id, name }) => (
+                      <Button
+                        key={id}
+                        size="sm"
+                        variant={botPlayers[id] ? "default" : "outline"}
+                        disabled={net.role !== "offline"}
+                        aria-pressed={!!botPlayers[id]}
+                        onClick={() =>
+                          setBotPlayers((prev) => ({
+                            ...prev,
+                            [id]: !prev[id],
+                          }))
+                        }
+                      >
+                        {name}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
                 <div className="space-y-3">
-                  {[1, 2, 3, 4].map((pid) => {
-                    const pNames: Record<number, string> = {
-                      1: "Player 1 (Fire)",
-                      2: "Player 2 (Water)",
-                      3: "Player 3 (Earth)",
-                      4: "Player 4 (Wind)",
-                    };
-                    const colors: Record<number, string> = {
-                      1: "#ef4444",
-                      2: "#14b8a6",
-                      3: "#92400e",
-                      4: "#38bdf8",
-                    };
+                  {seatCharacters.map((chars, i) => {
+                    const pid = i + 1;
+                    // Every character of this seat is a bot
+                    if (chars.length === 0) return null;
+                    const pName = `Player ${pid} (${chars
+                      .map((id) => PLAYER_NAMES[id])
+                      .join(" + ")})`;
                     const kb = bindings[pid];
+                    const fields: (keyof KeyBinding | "swap")[] = [
+                      "left",
+                      "right",
+                      "jump",
+                      "action",
+                    ];
+                    if (chars.length > 1) fields.push("swap");
                     return (
                       <div key={pid} className="rounded-md border p-3">
                         <div className="flex items-center justify-between">
                           <div className="flex items-center gap-2">
-                            <div
-                              className="h-3 w-3 rounded-full"
-                              style={{ backgroundColor: colors[pid] }}
-                            />
-                            <Label className="font-medium">{pNames[pid]}</Label>
+                            {chars.map((id) => (
+                              <div
+                                key={id}
+                                className="h-3 w-3 rounded-full"
+                                style={{ backgroundColor: PLAYER_COLORS[id] }}
+                              />
+                            ))}
+                            <Label className="font-medium">{pName}</Label>
+                          </div>
+                          <div className="flex gap-2">
+                            <select
+                              aria-label={`Touch controls for ${pName}`}
+                              className="rounded-md border bg-background px-2 py-1 text-sm"
+                              value={touchLayout[pid] ?? ""}
+                              onChange={(e) => {
+                                const edge = e.target.value;
+                                setTouchLayout((prev) => ({
+                                  ...prev,
+                                  [pid]:
+                                    TOUCH_EDGES.find((t) => t === edge) ?? null,
+                                }));
+                              }}
+                            >
+                              <option value="">No touch</option>
+                              {TOUCH_EDGES.map((edge) => (
+                                <option key={edge} value={edge}>
+                                  Touch: {edge}
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              aria-label={`Controller for ${pName}`}
+                              className="rounded-md border bg-background px-2 py-1 text-sm"
+                              value={padAssignments[pid] ?? ""}
+                              onChange={(e) => {
+                                const value =
+                                  e.target.value === ""
+                                    ? null
+                                    : Number(e.target.value);
+                                setPadAssignments((prev) => {
+                                  const next = { ...prev };
+                                  // A controller drives one player at a time
+                                  for (const other of ELEMENT_IDS) {
+                                    if (value !== null && next[other] === value)
+                                      next[other] = null;
+                                  }
+                                  next[pid] = value;
+                                  return next;
+                                });
+                              }}
+                            >
+                              <option value="">Keyboard only</option>
+                              {gamepads.pads.map((pad) => (
+                                <option key={pad.index} value={pad.index}>
+                                  Gamepad {pad.index + 1}: {pad.id.slice(0, 24)}
+                                </option>
+                              ))}
+                              {padAssignments[pid] !== null &&
+                                !gamepads.pads.some(
+                                  (pad) => pad.index === padAssignments[pid]
+                                ) && (
+                                  <option value={padAssignments[pid] ?? ""}>
+                                    Gamepad {(padAssignments[pid] ?? 0) + 1}{" "}
+                                    (disconnected)
+                                  </option>
+                                )}
+                            </select>
                           </div>
                         </div>
                         <div
                           className={`mt-3 grid ${
-                            pid === 4 ? "grid-cols-3" : "grid-cols-4"
+                            GRID_COLS[fields.length]
                           } gap-2`}
                         >
-                          {(pid === 4
-                            ? ([
-                                "left",
-                                "right",
-                                "jump",
-                              ] as (keyof KeyBinding)[])
-                            : ([
-                                "left",
-                                "right",
-                                "jump",
-                                "action",
-                              ] as (keyof KeyBinding)[])
-                          ).map((field) => (
+                          {fields.map((field) => (
                             <button
                               key={field}
                               className={`text-sm rounded-md border px-3 py-2 text-left hover:bg-muted ${
@@ -2019,7 +2212,9 @@ export default function FourPlayerPlatformer() {
                               <div className="text-xs text-muted-foreground uppercase">
                                 {field}
                               </div>
-                              <div className="font-mono">{kb[field]}</div>
+                              <div className="font-mono">
+                                {field === "swap" ? swapKeys[pid] : kb[field]}
+                              </div>
                             </button>
                           ))}
                         </div>
@@ -2027,10 +2222,149 @@ export default function FourPlayerPlatformer() {
                     );
                   })}
                 </div>
+                <div className="space-y-2 rounded-md border p-3 text-sm">
+                  <div className="flex items-center justify-between gap-3">
+                    <Label htmlFor="volume" className="font-medium">
+                      Sound
+                    </Label>
+                    <div className="flex items-center gap-3">
+                      <input
+                        id="volume"
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={Math.round(audioPrefs.volume * 100)}
+                        disabled={audioPrefs.muted}
+                        onChange={(e) =>
+                          setAudioPrefs((prev) => ({
+                            ...prev,
+                            volume: Number(e.target.value) / 100,
+                          }))
+                        }
+                      />
+                      <label className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={audioPrefs.muted}
+                          onChange={(e) =>
+                            setAudioPrefs((prev) => ({
+                              ...prev,
+                              muted: e.target.checked,
+                            }))
+                          }
+                        />
+                        Mute
+                      </label>
+                    </div>
+                  </div>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={displayPrefs.keyHints}
+                      onChange={(e) =>
+                        setDisplayPrefs((prev) => ({
+                          ...prev,
+                          keyHints: e.target.checked,
+                        }))
+                      }
+                    />
+                    Show key hints on level 1
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={displayPrefs.offscreenArrows}
+                      onChange={(e) =>
+                        setDisplayPrefs((prev) => ({
+                          ...prev,
+                          offscreenArrows: e.target.checked,
+                        }))
+                      }
+                    />
+                    Show arrows to off-screen players
+                  </label>
+                </div>
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <div className="font-medium text-sm">Save</div>
+                    <div className="text-xs text-muted-foreground">
+                      Keys, progress and preferences are kept in this browser.
+                    </div>
+                    {saveError && (
+                      <div className="text-xs text-red-700">{saveError}</div>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={exportSave}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => saveInputRef.current?.click()}
+                    >
+                      <Upload className="mr-2 h-4 w-4" />
+                      Import
+                    </Button>
+                    <input
+                      ref={saveInputRef}
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importSave(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </div>
+                </div>
               </DialogContent>
             </Dialog>
 
             {/* How to play modal */}
+            <Dialog
+              open={showTimes}
+              onOpenChange={(next) => handleModalOpenChange(next, "times")}
+            >
+              <DialogTrigger asChild>
+                <Button size="sm" variant="outline">
+                  <Timer className="mr-2 h-4 w-4" />
+                  Times
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Times</DialogTitle>
+                  <DialogDescription>
+                    The clock starts on the first key press and stops while the
+                    game is paused. Runs from level 1 to the end count for the
+                    full campaign.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="flex items-center justify-between gap-3 rounded-md border p-3">
+                  <Label htmlFor="team-name" className="font-medium">
+                    Team name
+                  </Label>
+                  <input
+                    id="team-name"
+                    className="rounded-md border bg-background px-2 py-1 text-sm"
+                    value={team}
+                    maxLength={24}
+                    onChange={(e) => setTeam(e.target.value)}
+                  />
+                </div>
+                <SpeedrunResults
+                  startLevel={runStartLevel}
+                  splits={runSplits}
+                  baseline={runBaseline}
+                  records={records}
+                  levelNames={BUILTIN_LEVELS.map((l) => l.name)}
+                />
+              </DialogContent>
+            </Dialog>
+
             <Dialog
               open={showHelp}
               onOpenChange={(next) => handleModalOpenChange(next, "help")}
@@ -2069,6 +2403,27 @@ export default function FourPlayerPlatformer() {
                         Stand on plates (orange) to open purple doors. You need
                         2 players on plates at once.
                       </li>
+                      <li>
+                        Walk into crates to push them. They hold plates down and
+                        fill holes; wooden ones float in water.
+                      </li>
+                      <li>
+                        Stand on a teammate to reach higher ledges; they carry
+                        you as they move. Not while swimming or dashing, and
+                        some levels turn it off.
+                      </li>
+                      <li>
+                        A colored corner tag wires a plate, lever, button or fan
+                        to the doors with the same tag. Walk through a lever to
+                        flip it; buttons stay on for a few seconds, and so do
+                        fans after Wind&apos;s gust spins them.
+                      </li>
+                      <li>
+                        Flags are checkpoints: after touching one you respawn
+                        there, and Earth blocks, ice and crates used up since
+                        come back. Gold flags count for everyone, colored ones
+                        for their character only.
+                      </li>
                       <li>
                         All plates must be pressed at least once before you can
                         win.
@@ -2082,22 +2437,33 @@ export default function FourPlayerPlatformer() {
                     </div>
                     <ul className="list-disc pl-5 space-y-1">
                       <li>
-                        Fire: Breaks red barriers and earth platforms. Fiery
-                        sparks on action; ember steps while running.
+                        Fire: Breaks red barriers and earth platforms, burns
+                        wooden crates and melts ice. Fiery sparks on action;
+                        ember steps while running.
                       </li>
                       <li>
                         Water: Converts adjacent dark holes (including
                         diagonals) into water and flood-fills all connected dark
                         holes at once; splash on fill; droplets while running.
+                        With no dark hole in reach, freezes nearby water into
+                        slippery ice that melts after a few seconds.
                       </li>
                       <li>
-                        Earth: Creates temporary stone platforms (4s cooldown);
-                        dust on spawn; crumble particles on despawn; dusty
-                        steps.
+                        Earth: Creates temporary stone platforms (4s cooldown)
+                        and digs through soft dirt; press again right away to
+                        loosen the platform into a stone crate. Hold the action
+                        to aim with the direction keys (below when none are
+                        held) and let go to act there: dig dirt, raise a pillar
+                        that lifts whoever stands on it from the ground, or
+                        place a block in the air. Dust on spawn; crumble
+                        particles on despawn; dusty steps.
                       </li>
                       <li>
-                        Wind: Double-tap Z/C/X to dash (3s cooldown) with airy
-                        trail; wisps while running.
+                        Wind: Action blows a gust toward the held direction that
+                        shoves teammates and crates, spins fans and blows out
+                        fire holes; a ring shows it recharging. Double-tap Z/C/X
+                        to dash (3s cooldown) with airy trail, blowing crates
+                        ahead away; wisps while running.
                       </li>
                     </ul>
                   </div>
@@ -2113,6 +2479,35 @@ export default function FourPlayerPlatformer() {
                       </li>
                       <li>5 levels total, each requiring more teamwork</li>
                       <li>Use Prev/Next buttons to practice any level</li>
+                      <li>
+                        Save Replay exports the current attempt; Load Replay
+                        plays one back exactly
+                      </li>
+                      <li>
+                        Level Editor paints new maps; Test Play runs the draft
+                        and Export saves it as JSON
+                      </li>
+                      <li>
+                        Online hosts a lobby that up to three friends join with
+                        its code; start the relay first with pnpm relay
+                      </li>
+                      <li>
+                        Fewer than four of you? Pick a party size under
+                        Controls; each player swaps between their characters
+                        with the swap key
+                      </li>
+                      <li>
+                        Computer plays under Controls hands characters to bots
+                        that follow you, hold plates and head for their gates
+                      </li>
+                      <li>
+                        Progress, keys and preferences are saved in this
+                        browser; Controls exports and imports them as a file
+                      </li>
+                      <li>
+                        Times shows the speedrun clock&apos;s splits and the
+                        best runs; enter your team name there
+                      </li>
                       <li>Reset All Progress button returns to Level 1</li>
                       <li>
                         Keybind overlays only show in Level 1 tutorial (first
@@ -2120,7 +2515,7 @@ export default function FourPlayerPlatformer() {
                       </li>
                     </ul>
                     <div className="mt-2 text-xs space-y-1">
-                      {LEVEL_DESCRIPTIONS.map((desc, i) => (
+                      {BUILTIN_LEVELS.map((lvl, i) => (
                         <div
                           key={i}
                           className={
@@ -2129,10 +2524,22 @@ export default function FourPlayerPlatformer() {
                               : ""
                           }
                         >
-                          Level {i + 1}: {desc}
+                          Level {i + 1}: {lvl.name}: {lvl.description}
                         </div>
                       ))}
                     </div>
+                    {(draft ?? BUILTIN_LEVELS[currentLevel]).hints?.length ? (
+                      <div className="mt-2 text-xs">
+                        <div className="font-medium text-foreground">Hints</div>
+                        <ul className="list-disc pl-5">
+                          {(draft ?? BUILTIN_LEVELS[currentLevel]).hints!.map(
+                            (hint, i) => (
+                              <li key={i}>{hint}</li>
+                            )
+                          )}
+                        </ul>
+                      </div>
+                    ) : null}
                   </div>
                   <Separator />
                   <div>
@@ -2146,7 +2553,18 @@ export default function FourPlayerPlatformer() {
                         Earth: Arrow Left/Right move, Arrow Up jump, Arrow Down
                         action
                       </li>
-                      <li>Wind: Z/C move, X jump — double-tap Z/C/X to dash</li>
+                      <li>
+                        Wind: Z/C move, X jump, B gust — double-tap Z/C/X to
+                        dash
+                      </li>
+                      <li>
+                        Gamepads: stick or D-pad to move, A jump, X action, RB
+                        dash; pick each player&apos;s controller in Controls
+                      </li>
+                      <li>
+                        Touch: give each player an edge of the screen in
+                        Controls; Wind swipes to dash and taps Action to gust
+                      </li>
                     </ul>
                     <div className="mt-2">
                       Tip: Use the Controls window to rebind keys.
@@ -2161,12 +2579,16 @@ export default function FourPlayerPlatformer() {
             {/* Level info and navigation */}
             <div className="flex items-center gap-2">
               <div className="text-sm text-muted-foreground">
-                Level: {currentLevel + 1}/{LEVEL_MAPS.length}
-                {hasCompletedLevel1 && currentLevel === 0 && (
-                  <span className="ml-2 text-green-600">✓</span>
+                Level: {currentLevel + 1}/{BUILTIN_LEVELS.length}
+                {progress.best[currentLevel] && (
+                  <span className="ml-2 text-green-600">
+                    ✓ best {progress.best[currentLevel].deaths} deaths,{" "}
+                    {formatRunTime(progress.best[currentLevel].time)}
+                  </span>
                 )}
                 <div className="text-xs">
-                  {LEVEL_DESCRIPTIONS[currentLevel]}
+                  {BUILTIN_LEVELS[currentLevel].name}:{" "}
+                  {BUILTIN_LEVELS[currentLevel].description}
                 </div>
               </div>
               <Button
@@ -2182,10 +2604,13 @@ export default function FourPlayerPlatformer() {
                 variant="outline"
                 onClick={() =>
                   handleLevelChange(
-                    Math.min(LEVEL_MAPS.length - 1, currentLevel + 1)
+                    Math.min(BUILTIN_LEVELS.length - 1, currentLevel + 1)
                   )
                 }
-                disabled={currentLevel === LEVEL_MAPS.length - 1}
+                disabled={
+                  currentLevel >=
+                  Math.min(progress.unlockedLevel, BUILTIN_LEVELS.length - 1)
+                }
               >
                 Next
               </Button>
@@ -2195,15 +2620,51 @@ export default function FourPlayerPlatformer() {
             <div className="text-sm text-muted-foreground">
               Deaths: {deaths}
             </div>
+            <div className="text-sm text-muted-foreground">
+              Time:{" "}
+              <span ref={timerTextRef} className="font-mono">
+                {formatRunTime(0)}
+              </span>
+            </div>
+            {replaying && (
+              <div className="ml-2 rounded bg-sky-100 px-2 py-1 text-sm font-medium text-sky-700">
+                Replay
+              </div>
+            )}
+            {replayError && (
+              <div className="ml-2 rounded bg-red-100 px-2 py-1 text-sm font-medium text-red-700">
+                {replayError}
+              </div>
+            )}
+            {draft && (
+              <div className="ml-2 rounded bg-amber-100 px-2 py-1 text-sm font-medium text-amber-700">
+                Testing draft
+              </div>
+            )}
+            {levelIssues.length > 0 && (
+              <div
+                className={cn(
+                  "ml-2 rounded px-2 py-1 text-sm font-medium",
+                  hasErrors(levelIssues)
+                    ? "bg-red-100 text-red-700"
+                    : "bg-amber-100 text-amber-700"
+                )}
+                title={levelIssues.map(formatIssue).join("\n")}
+              >
+                {hasErrors(levelIssues) && "Level not started: "}
+                {levelIssues.length} level{" "}
+                {levelIssues.length === 1 ? "issue" : "issues"}
+              </div>
+            )}
             {won && (
               <div className="ml-2 rounded bg-emerald-100 px-2 py-1 text-sm font-medium text-emerald-700">
-                All levels completed!
+                {draft ? "Draft cleared!" : "All levels completed!"}
               </div>
             )}
             {/* Right-aligned QR icon */}
             {/* <div className="flex items-center"> */}
-              {/* <Separator orientation="vertical" className="mx-2 h-6" /> */}
-              {/* <img src="/qr.svg" alt="QR code" className="h-10 w-10" /> */}
+            {/* <Separator orientation="vertical" className="mx-2 h-6" /> */}
+            {/* <img src="/qr.svg" alt="QR code" className="h-10 w-10" /> */}
             {/* </div> */}
           </div>
         </CardContent>
@@ -2214,7 +2675,14 @@ export default function FourPlayerPlatformer() {
         ref={wrapperRef}
         className="relative flex-1 overflow-hidden bg-white"
       >
-        <canvas ref={canvasRef} />
+        <canvas ref={canvasRef} className="block" />
+        <TouchControls
+          layout={touchLayout}
+          bindings={bindings}
+          colors={PLAYER_COLORS}
+          names={PLAYER_NAMES}
+          input={touchInput}
+        />
         {paused && (
           <div className="pointer-events-none absolute inset-0 grid place-items-center bg-black/40">
             <div className="pointer-events-auto rounded-md bg-white p-4 shadow">
@@ -2226,9 +2694,31 @@ export default function FourPlayerPlatformer() {
                   ? "All players reached their exits and all plates were pressed."
                   : "Press P/Esc to resume"}
               </div>
+              {won && !draft && runSplits.length > 0 && (
+                <div className="mt-4 max-h-[60vh] w-80 overflow-y-auto">
+                  <SpeedrunResults
+                    startLevel={runStartLevel}
+                    splits={runSplits}
+                    baseline={runBaseline}
+                    records={records}
+                    levelNames={BUILTIN_LEVELS.map((l) => l.name)}
+                  />
+                </div>
+              )}
             </div>
           </div>
         )}
+        {editing && (
+          <div className="absolute inset-0 z-10 bg-background">
+            <LevelEditor
+              initialLevel={draft ?? BUILTIN_LEVELS[currentLevel]}
+              bindings={bindings}
+              onTestPlay={testPlayDraft}
+              onWatchSolution={watchSolution}
+              onClose={leaveDraft}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,456 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Download, Play, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { SIM_HZ, TILE } from "@/lib/game/constants";
+import { elementByTile } from "@/lib/game/elements";
+import { createEntities } from "@/lib/game/entities";
+import { loadLevel } from "@/lib/game/levels";
+import { migrateAsciiLevel } from "@/lib/game/level-format";
+import { drawEntities, drawLevel, drawSpawnMarker } from "@/lib/game/render";
+import { replaceChar, tileTypes } from "@/lib/game/tiles";
+import type { Recording } from "@/lib/game/replay";
+import type { SolverResult } from "@/lib/game/solver";
+import type { SolverMessage, SolverRequest } from "@/lib/game/solver-worker";
+import type { KeyBinding, LevelFile } from "@/lib/game/types";
+import { formatIssue, hasErrors, validateLevel } from "@/lib/game/validate";
+import { cn } from "@/lib/utils";
+
+const MIN_SIZE = 3;
+const MAX_SIZE = 100;
+// How long the solvability check searches before giving up
+const SOLVER_BUDGET = 180_000; // ms
+
+// Render every tile of a map, including the spawn digits the game strips
+// out, the wiring tags and the entities at the start of their paths
+function drawDraft(
+  ctx: CanvasRenderingContext2D,
+  rows: string[],
+  extras: Pick<LevelFile, "entities" | "wiring"> = {}
+) {
+  const level = loadLevel(migrateAsciiLevel(rows, extras));
+  drawLevel(ctx, level, {}, new Map(), 0);
+  drawEntities(ctx, createEntities(extras.entities, TILE));
+  for (let y = 0; y < level.h; y++) {
+    for (let x = 0; x < level.w; x++) {
+      drawSpawnMarker(ctx, rows[y][x], x * TILE, y * TILE, TILE);
+    }
+  }
+}
+
+function resizeRows(rows: string[], w: number, h: number) {
+  const out: string[] = [];
+  for (let y = 0; y < h; y++) {
+    out.push((rows[y] ?? "").padEnd(w, ".").slice(0, w));
+  }
+  return out;
+}
+
+function TileSwatch({ ch }: { ch: string }) {
+  const ref = useRef<HTMLCanvasElement | null>(null);
+  useEffect(() => {
+    const ctx = ref.current?.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, TILE, TILE);
+    drawDraft(ctx, [ch]);
+  }, [ch]);
+  return (
+    <canvas
+      ref={ref}
+      width={TILE}
+      height={TILE}
+      className="h-6 w-6 rounded-sm border bg-white"
+    />
+  );
+}
+
+export default function LevelEditor({
+  initialLevel,
+  bindings,
+  onTestPlay,
+  onWatchSolution,
+  onClose,
+}: {
+  initialLevel: LevelFile;
+  bindings: Record<number, KeyBinding>;
+  onTestPlay: (level: LevelFile) => void;
+  onWatchSolution: (recording: Recording) => void;
+  onClose: () => void;
+}) {
+  const [rows, setRows] = useState<string[]>(() => initialLevel.tiles.slice());
+  // Everything in the level file except the tiles
+  const [meta, setMeta] = useState<Omit<LevelFile, "tiles">>(() => {
+    const { tiles: _tiles, ...rest } = initialLevel;
+    return rest;
+  });
+  const [brush, setBrush] = useState("#");
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const wrapperRef = useRef<HTMLDivElement | null>(null);
+  // Character being painted while a pointer is held down
+  const paintingRef = useRef<string | null>(null);
+
+  const w = rows[0]?.length ?? 0;
+  const h = rows.length;
+  const currentFile = (): LevelFile => ({ ...meta, tiles: rows });
+  const issues = useMemo(
+    () => validateLevel({ ...meta, tiles: rows }),
+    [meta, rows]
+  );
+
+  // Solvability check; any edit cancels a running search
+  const [solving, setSolving] = useState(0);
+  const [solveResult, setSolveResult] = useState<SolverResult | null>(null);
+  const solverRef = useRef<Worker | null>(null);
+  const stopSolver = () => {
+    solverRef.current?.terminate();
+    solverRef.current = null;
+  };
+  useEffect(() => {
+    setSolving(0);
+    setSolveResult(null);
+    return stopSolver;
+  }, [rows, meta]);
+
+  const checkSolvable = () => {
+    stopSolver();
+    const worker = new Worker(
+      new URL("../lib/game/solver-worker.ts", import.meta.url)
+    );
+    solverRef.current = worker;
+    worker.onmessage = (e: MessageEvent<SolverMessage>) => {
+      const msg = e.data;
+      if (msg.type === "progress") {
+        setSolving(Math.max(1, msg.expansions));
+        return;
+      }
+      stopSolver();
+      setSolving(0);
+      setSolveResult(msg.result);
+    };
+    worker.onerror = () => {
+      stopSolver();
+      setSolving(0);
+    };
+    const request: SolverRequest = {
+      levelFile: currentFile(),
+      bindings,
+      budgetMs: SOLVER_BUDGET,
+    };
+    worker.postMessage(request);
+    setSolveResult(null);
+    setSolving(1);
+  };
+
+  const redraw = useCallback(() => {
+    const wrap = wrapperRef.current;
+    const canvas = canvasRef.current;
+    if (!wrap || !canvas) return;
+    const targetW = w * TILE;
+    const targetH = h * TILE;
+    const scale = Math.min(
+      wrap.clientWidth / targetW,
+      wrap.clientHeight / targetH
+    );
+    const dpr = Math.min(window.devicePixelRatio || 1, 2);
+    canvas.style.width = Math.floor(targetW * scale) + "px";
+    canvas.style.height = Math.floor(targetH * scale) + "px";
+    canvas.width = Math.floor(targetW * dpr);
+    canvas.height = Math.floor(targetH * dpr);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, targetW, targetH);
+    drawDraft(ctx, rows, meta);
+    // Grid
+    ctx.strokeStyle = "rgba(0,0,0,0.08)";
+    ctx.lineWidth = 1;
+    for (let x = 0; x <= w; x++) {
+      ctx.beginPath();
+      ctx.moveTo(x * TILE, 0);
+      ctx.lineTo(x * TILE, targetH);
+      ctx.stroke();
+    }
+    for (let y = 0; y <= h; y++) {
+      ctx.beginPath();
+      ctx.moveTo(0, y * TILE);
+      ctx.lineTo(targetW, y * TILE);
+      ctx.stroke();
+    }
+    // Outline tiles the validator complains about
+    ctx.lineWidth = 3;
+    for (const issue of issues) {
+      if (issue.tx === undefined || issue.ty === undefined) continue;
+      ctx.strokeStyle = issue.severity === "error" ? "#dc2626" : "#f59e0b";
+      ctx.strokeRect(
+        issue.tx * TILE + 1.5,
+        issue.ty * TILE + 1.5,
+        TILE - 3,
+        TILE - 3
+      );
+    }
+  }, [rows, w, h, issues, meta]);
+
+  useEffect(() => {
+    redraw();
+    const ro =
+      typeof ResizeObserver !== "undefined"
+        ? new ResizeObserver(() => redraw())
+        : null;
+    if (ro && wrapperRef.current) ro.observe(wrapperRef.current);
+    return () => ro?.disconnect();
+  }, [redraw]);
+
+  const paintAt = (clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    const ch = paintingRef.current;
+    if (!canvas || ch === null) return;
+    const rect = canvas.getBoundingClientRect();
+    const tx = Math.floor(((clientX - rect.left) / rect.width) * w);
+    const ty = Math.floor(((clientY - rect.top) / rect.height) * h);
+    if (tx < 0 || ty < 0 || tx >= w || ty >= h) return;
+    setRows((prev) => {
+      if (prev[ty][tx] === ch) return prev;
+      let next = prev;
+      // Each player has exactly one spawn, so move it instead of copying
+      if (elementByTile("spawn", ch)) {
+        next = next.map((row) => row.split(ch).join("."));
+      }
+      next = next.slice();
+      next[ty] = replaceChar(next[ty], tx, ch);
+      return next;
+    });
+  };
+
+  const exportDraft = () => {
+    const blob = new Blob([JSON.stringify(currentFile(), null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "level.json";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex h-full">
+      {/* Palette */}
+      <div className="w-56 shrink-0 space-y-3 overflow-y-auto border-r p-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="editor-w" className="text-xs">
+              Width
+            </Label>
+            <input
+              id="editor-w"
+              type="number"
+              min={MIN_SIZE}
+              max={MAX_SIZE}
+              value={w}
+              className="w-full rounded-md border px-2 py-1 text-sm"
+              onChange={(e) => {
+                const next = Math.round(Number(e.target.value));
+                if (next >= MIN_SIZE && next <= MAX_SIZE)
+                  setRows((prev) => resizeRows(prev, next, prev.length));
+              }}
+            />
+          </div>
+          <div>
+            <Label htmlFor="editor-h" className="text-xs">
+              Height
+            </Label>
+            <input
+              id="editor-h"
+              type="number"
+              min={MIN_SIZE}
+              max={MAX_SIZE}
+              value={h}
+              className="w-full rounded-md border px-2 py-1 text-sm"
+              onChange={(e) => {
+                const next = Math.round(Number(e.target.value));
+                if (next >= MIN_SIZE && next <= MAX_SIZE)
+                  setRows((prev) => resizeRows(prev, prev[0].length, next));
+              }}
+            />
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="editor-plates" className="text-xs">
+            Players on plates to open doors
+          </Label>
+          <input
+            id="editor-plates"
+            type="number"
+            min={1}
+            max={4}
+            value={meta.options.platesToOpenDoors}
+            className="w-full rounded-md border px-2 py-1 text-sm"
+            onChange={(e) => {
+              const next = Math.round(Number(e.target.value));
+              if (next >= 1 && next <= 4)
+                setMeta((m) => ({
+                  ...m,
+                  options: { ...m.options, platesToOpenDoors: next },
+                }));
+            }}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-xs">
+          <input
+            type="checkbox"
+            checked={meta.options.playerStacking}
+            onChange={(e) =>
+              setMeta((m) => ({
+                ...m,
+                options: { ...m.options, playerStacking: e.target.checked },
+              }))
+            }
+          />
+          Players can stand on each other
+        </label>
+        <Separator />
+        {(["name", "author", "description"] as const).map((field) => (
+          <div key={field}>
+            <Label htmlFor={`editor-${field}`} className="text-xs capitalize">
+              {field}
+            </Label>
+            <input
+              id={`editor-${field}`}
+              value={meta[field]}
+              className="w-full rounded-md border px-2 py-1 text-sm"
+              onChange={(e) =>
+                setMeta((m) => ({ ...m, [field]: e.target.value }))
+              }
+            />
+          </div>
+        ))}
+        <Separator />
+        <div className="space-y-1">
+          {tileTypes().map(({ ch, label }) => (
+            <button
+              key={ch}
+              className={cn(
+                "flex w-full items-center gap-2 rounded-md border px-2 py-1 text-left text-xs hover:bg-muted",
+                brush === ch && "ring-2 ring-amber-500"
+              )}
+              onClick={() => setBrush(ch)}
+            >
+              <TileSwatch ch={ch} />
+              <span className="font-mono">{ch}</span>
+              <span className="text-muted-foreground">{label}</span>
+            </button>
+          ))}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Left-drag paints, right-drag erases.
+        </div>
+        {issues.length > 0 && (
+          <>
+            <Separator />
+            <ul className="space-y-1 text-xs">
+              {issues.map((issue, i) => (
+                <li
+                  key={i}
+                  className={
+                    issue.severity === "error"
+                      ? "text-red-700"
+                      : "text-amber-700"
+                  }
+                >
+                  {formatIssue(issue)}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-1 flex-col">
+        <div className="flex items-center gap-2 border-b p-2">
+          <Button
+            size="sm"
+            disabled={hasErrors(issues)}
+            onClick={() => onTestPlay(currentFile())}
+          >
+            <Play className="mr-2 h-4 w-4" />
+            Test Play
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={hasErrors(issues) || solving > 0}
+            onClick={checkSolvable}
+          >
+            <Search className="mr-2 h-4 w-4" />
+            Check Solvable
+          </Button>
+          <Button size="sm" variant="outline" onClick={exportDraft}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+          <Button size="sm" variant="outline" onClick={onClose}>
+            <X className="mr-2 h-4 w-4" />
+            Close Editor
+          </Button>
+          <div className="text-sm text-muted-foreground">
+            {w}×{h}
+          </div>
+          {solving > 0 && (
+            <div className="text-sm text-muted-foreground">
+              Searching… {solving} states
+            </div>
+          )}
+          {solveResult?.status === "solved" && (
+            <>
+              <div className="text-sm text-emerald-700">
+                Solvable ({(solveResult.ticks / SIM_HZ).toFixed(1)}s)
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onWatchSolution(solveResult.recording)}
+              >
+                Watch Solution
+              </Button>
+            </>
+          )}
+          {solveResult?.status === "unsolvable" && (
+            <div
+              className="text-sm text-red-700"
+              title="Every state the solver's moves reach was tried"
+            >
+              Unsolvable ({solveResult.expansions} states)
+            </div>
+          )}
+          {solveResult?.status === "gave-up" && (
+            <div className="text-sm text-amber-700">
+              No solution found within budget ({solveResult.expansions} states)
+            </div>
+          )}
+        </div>
+        <div
+          ref={wrapperRef}
+          className="relative flex-1 overflow-hidden bg-white"
+        >
+          <canvas
+            ref={canvasRef}
+            className="touch-none"
+            onContextMenu={(e) => e.preventDefault()}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              paintingRef.current = e.button === 2 ? "." : brush;
+              paintAt(e.clientX, e.clientY);
+            }}
+            onPointerMove={(e) => paintAt(e.clientX, e.clientY)}
+            onPointerUp={() => (paintingRef.current = null)}
+            onPointerCancel={() => (paintingRef.current = null)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
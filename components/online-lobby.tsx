@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { Globe, LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import type { useNetSession } from "@/hooks/use-net-session";
+import { ELEMENT_IDS } from "@/lib/game/elements";
+import { HOST_PEER } from "@/lib/game/net";
+
+type NetSession = ReturnType<typeof useNetSession>;
+
+// Host or join an online game and hand out the four player slots. Unlike
+// the other dialogs this one does not pause the game, since remote players
+// may already be playing.
+export default function OnlineLobby({
+  net,
+  colors,
+  names,
+}: {
+  net: NetSession;
+  colors: Record<number, string>;
+  names: Record<number, string>;
+}) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [lobbyCode, setLobbyCode] = useState("");
+
+  const ownerName = (pid: number) => {
+    const owner = net.slots[pid];
+    if (owner === null || owner === undefined) return "Nobody";
+    if (owner === net.myPeerId) return "You";
+    return net.slotNames[pid] ?? "";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          size="sm"
+          variant={net.role === "offline" ? "outline" : "default"}
+        >
+          <Globe className="mr-2 h-4 w-4" />
+          {net.code ? `Online: ${net.code}` : "Online"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Online play</DialogTitle>
+          <DialogDescription>
+            One browser hosts the game; up to {net.maxPeers} others join with
+            the lobby code. Start the relay with <code>pnpm relay</code>.
+          </DialogDescription>
+        </DialogHeader>
+
+        {net.role === "offline" ? (
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="net-name" className="text-xs">
+                Your name
+              </Label>
+              <input
+                id="net-name"
+                value={name}
+                maxLength={24}
+                className="w-full rounded-md border px-2 py-1 text-sm"
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <Button
+              className="w-full"
+              disabled={net.connecting}
+              onClick={net.host}
+            >
+              Host a game
+            </Button>
+            <Separator />
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label htmlFor="net-code" className="text-xs">
+                  Lobby code
+                </Label>
+                <input
+                  id="net-code"
+                  value={lobbyCode}
+                  maxLength={8}
+                  className="w-full rounded-md border px-2 py-1 font-mono text-sm uppercase"
+                  onChange={(e) => setLobbyCode(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                disabled={net.connecting || !lobbyCode.trim()}
+                onClick={() => net.join(lobbyCode, name.trim() || "Guest")}
+              >
+                Join
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="text-sm">
+              Lobby code{" "}
+              <span className="font-mono text-lg font-bold">{net.code}</span>
+            </div>
+            <div className="space-y-2">
+              {ELEMENT_IDS.map((pid) => (
+                <div key={pid} className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: colors[pid] }}
+                    />
+                    <span className="text-sm font-medium">{names[pid]}</span>
+                  </div>
+                  {net.role === "host" ? (
+                    <select
+                      aria-label={`Who plays ${names[pid]}`}
+                      className="rounded-md border bg-background px-2 py-1 text-sm"
+                      value={net.slots[pid] ?? ""}
+                      onChange={(e) =>
+                        net.assignSlot(
+                          pid,
+                          e.target.value === "" ? null : Number(e.target.value)
+                        )
+                      }
+                    >
+                      <option value={HOST_PEER}>You (this browser)</option>
+                      {net.peers.map((peer) => (
+                        <option key={peer.peerId} value={peer.peerId}>
+                          {peer.name}
+                        </option>
+                      ))}
+                      <option value="">Nobody</option>
+                    </select>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">
+                      {ownerName(pid)}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+            <Button variant="outline" className="w-full" onClick={net.leave}>
+              <LogOut className="mr-2 h-4 w-4" />
+              {net.role === "host" ? "Close lobby" : "Leave lobby"}
+            </Button>
+          </div>
+        )}
+
+        {net.error && <div className="text-sm text-red-700">{net.error}</div>}
+      </DialogContent>
+    </Dialog>
+  );
+}
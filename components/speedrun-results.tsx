@@ -0,0 +1,110 @@
+"use client";
+
+import {
+  formatRunTime,
+  segmentTimes,
+  type LeaderboardEntry,
+  type SpeedrunRecords,
+} from "@/lib/game/speedrun";
+import { cn } from "@/lib/utils";
+
+// Splits of the current run next to the best campaign run, plus the local
+// leaderboards. Deltas compare cumulative splits, so they only exist for
+// runs that started on level 1 like the campaign runs they are measured
+// against.
+export default function SpeedrunResults({
+  startLevel,
+  splits,
+  baseline,
+  records,
+  levelNames,
+}: {
+  startLevel: number;
+  splits: number[];
+  // Best campaign run when the current run started
+  baseline?: LeaderboardEntry;
+  records: SpeedrunRecords;
+  levelNames: string[];
+}) {
+  const segments = segmentTimes(splits);
+  const compare = startLevel === 0 ? baseline?.splits : undefined;
+
+  return (
+    <div className="space-y-4 text-sm">
+      <table className="w-full">
+        <thead className="text-xs text-muted-foreground">
+          <tr>
+            <th className="text-left font-normal">Level</th>
+            <th className="text-right font-normal">Segment</th>
+            <th className="text-right font-normal">Split</th>
+            <th className="text-right font-normal">
+              {baseline ? `vs ${baseline.team}` : "vs best"}
+            </th>
+          </tr>
+        </thead>
+        <tbody className="font-mono">
+          {levelNames.slice(startLevel).map((name, i) => {
+            const split = splits[i];
+            const delta =
+              split !== undefined && compare?.[i] !== undefined
+                ? split - compare[i]
+                : undefined;
+            return (
+              <tr key={name}>
+                <td className="font-sans">
+                  {startLevel + i + 1}. {name}
+                </td>
+                <td className="text-right">
+                  {split === undefined ? "—" : formatRunTime(segments[i])}
+                </td>
+                <td className="text-right">
+                  {split === undefined ? "—" : formatRunTime(split)}
+                </td>
+                <td
+                  className={cn(
+                    "text-right",
+                    delta !== undefined &&
+                      (delta <= 0 ? "text-green-600" : "text-red-600")
+                  )}
+                >
+                  {delta === undefined ? "—" : formatRunTime(delta, true)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div>
+        <div className="font-medium">Full campaign</div>
+        <Leaderboard entries={records.campaign} />
+      </div>
+      {levelNames.map((name, level) => (
+        <div key={name}>
+          <div className="font-medium">
+            {level + 1}. {name}
+          </div>
+          <Leaderboard entries={records.levels[level] ?? []} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Leaderboard({ entries }: { entries: LeaderboardEntry[] }) {
+  if (entries.length === 0) {
+    return <div className="text-xs text-muted-foreground">No times yet</div>;
+  }
+  return (
+    <ol className="text-xs">
+      {entries.map((e, i) => (
+        <li key={`${e.date}-${i}`} className="flex justify-between gap-4">
+          <span>
+            {i + 1}. {e.team}
+          </span>
+          <span className="font-mono">{formatRunTime(e.time)}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
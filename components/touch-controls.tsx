@@ -0,0 +1,236 @@
+"use client";
+
+import type { PointerEvent as ReactPointerEvent, ReactNode } from "react";
+import { useRef } from "react";
+import type { TouchInput } from "@/hooks/use-touch-input";
+import { ELEMENT_IDS, elementById } from "@/lib/game/elements";
+import type { KeyBinding } from "@/lib/game/types";
+import { cn } from "@/lib/utils";
+
+export type TouchEdge = "bottom" | "top" | "left" | "right";
+// playerId -> screen edge its controls sit on (null = no touch controls)
+export type TouchLayout = Record<number, TouchEdge | null>;
+
+export const TOUCH_EDGES: TouchEdge[] = ["bottom", "top", "left", "right"];
+
+const SWIPE_MIN_DISTANCE = 40; // px
+const SWIPE_MAX_TIME = 300; // ms
+
+// Each edge's controls are rotated so they face the player sitting there
+const EDGE_ROTATION: Record<TouchEdge, number> = {
+  bottom: 0,
+  top: 180,
+  left: 90,
+  right: -90,
+};
+
+// Convert a screen-space swipe into the rotated pad's own frame
+function toPadFrame(edge: TouchEdge, dx: number, dy: number) {
+  switch (edge) {
+    case "top":
+      return { dx: -dx, dy: -dy };
+    case "left":
+      return { dx: dy, dy: -dx };
+    case "right":
+      return { dx: -dy, dy: dx };
+    default:
+      return { dx, dy };
+  }
+}
+
+function TouchButton({
+  input,
+  bindKey,
+  className,
+  children,
+}: {
+  input: TouchInput;
+  bindKey: string;
+  className?: string;
+  children: ReactNode;
+}) {
+  const down = (e: ReactPointerEvent<HTMLDivElement>) => {
+    // Touch pointers are captured implicitly; release so sliding a finger
+    // onto the neighbouring button hands the press over to it
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    input.press(e.pointerId, bindKey);
+  };
+  const enter = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (e.buttons || e.pointerType === "touch")
+      input.press(e.pointerId, bindKey);
+  };
+  const up = (e: ReactPointerEvent<HTMLDivElement>) =>
+    input.release(e.pointerId);
+  return (
+    <div
+      role="button"
+      className={cn(
+        "grid h-16 w-16 place-items-center rounded-xl border-2 bg-black/30 text-sm font-semibold text-white active:bg-black/50",
+        className
+      )}
+      onPointerDown={down}
+      onPointerEnter={enter}
+      onPointerLeave={up}
+      onPointerUp={up}
+      onPointerCancel={up}
+    >
+      {children}
+    </div>
+  );
+}
+
+function SwipeZone({
+  input,
+  edge,
+  binding,
+}: {
+  input: TouchInput;
+  edge: TouchEdge;
+  binding: KeyBinding;
+}) {
+  const starts = useRef<Map<number, { x: number; y: number; t: number }>>(
+    new Map()
+  );
+  return (
+    <div
+      className="grid h-16 w-28 place-items-center rounded-xl border-2 border-dashed bg-black/20 text-xs font-semibold text-white"
+      onPointerDown={(e) =>
+        starts.current.set(e.pointerId, {
+          x: e.clientX,
+          y: e.clientY,
+          t: e.timeStamp,
+        })
+      }
+      onPointerCancel={(e) => starts.current.delete(e.pointerId)}
+      onPointerUp={(e) => {
+        const start = starts.current.get(e.pointerId);
+        starts.current.delete(e.pointerId);
+        if (!start || e.timeStamp - start.t > SWIPE_MAX_TIME) return;
+        const { dx, dy } = toPadFrame(
+          edge,
+          e.clientX - start.x,
+          e.clientY - start.y
+        );
+        if (Math.hypot(dx, dy) < SWIPE_MIN_DISTANCE) return;
+        // A swipe stands in for a double tap of the matching direction key
+        if (Math.abs(dx) >= Math.abs(dy)) {
+          input.tap(dx > 0 ? binding.right : binding.left);
+        } else if (dy < 0) {
+          input.tap(binding.jump);
+        }
+      }}
+    >
+      Swipe to dash
+    </div>
+  );
+}
+
+function PlayerPad({
+  pid,
+  edge,
+  binding,
+  color,
+  name,
+  input,
+}: {
+  pid: number;
+  edge: TouchEdge;
+  binding: KeyBinding;
+  color: string;
+  name: string;
+  input: TouchInput;
+}) {
+  return (
+    <div
+      className="pointer-events-auto flex items-end gap-3 rounded-2xl p-2"
+      style={{
+        transform: `rotate(${EDGE_ROTATION[edge]}deg)`,
+        backgroundColor: `${color}33`,
+      }}
+    >
+      <div className="flex flex-col items-center gap-1">
+        <span className="text-xs font-bold" style={{ color }}>
+          {name}
+        </span>
+        <div className="flex gap-1">
+          <TouchButton input={input} bindKey={binding.left}>
+            ◀
+          </TouchButton>
+          <TouchButton input={input} bindKey={binding.right}>
+            ▶
+          </TouchButton>
+        </div>
+      </div>
+      <TouchButton
+        input={input}
+        bindKey={binding.jump}
+        className="rounded-full"
+      >
+        Jump
+      </TouchButton>
+      {binding.action && (
+        <TouchButton
+          input={input}
+          bindKey={binding.action}
+          className="rounded-full"
+        >
+          Action
+        </TouchButton>
+      )}
+      {elementById(pid)?.dash && (
+        <SwipeZone input={input} edge={edge} binding={binding} />
+      )}
+    </div>
+  );
+}
+
+// On-screen controls for tablets and phones, one cluster per player anchored
+// to the edge of the screen that player sits at
+export default function TouchControls({
+  layout,
+  bindings,
+  colors,
+  names,
+  input,
+}: {
+  layout: TouchLayout;
+  bindings: Record<number, KeyBinding>;
+  colors: Record<number, string>;
+  names: Record<number, string>;
+  input: TouchInput;
+}) {
+  const onEdge = (edge: TouchEdge) =>
+    ELEMENT_IDS.filter((pid) => layout[pid] === edge);
+  const pad = (pid: number, edge: TouchEdge) => (
+    <PlayerPad
+      key={pid}
+      pid={pid}
+      edge={edge}
+      binding={bindings[pid]}
+      color={colors[pid]}
+      name={names[pid]}
+      input={input}
+    />
+  );
+  return (
+    <div
+      className="pointer-events-none absolute inset-0 touch-none select-none"
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div className="absolute inset-x-0 bottom-0 flex justify-between p-3">
+        {onEdge("bottom").map((pid) => pad(pid, "bottom"))}
+      </div>
+      <div className="absolute inset-x-0 top-0 flex flex-row-reverse justify-between p-3">
+        {onEdge("top").map((pid) => pad(pid, "top"))}
+      </div>
+      <div className="absolute inset-y-0 left-0 flex w-24 flex-col items-center justify-around">
+        {onEdge("left").map((pid) => pad(pid, "left"))}
+      </div>
+      <div className="absolute inset-y-0 right-0 flex w-24 flex-col-reverse items-center justify-around">
+        {onEdge("right").map((pid) => pad(pid, "right"))}
+      </div>
+    </div>
+  );
+}
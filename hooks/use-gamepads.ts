@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { elementById } from "@/lib/game/elements";
+import type { InputSnapshot, Player } from "@/lib/game/types";
+
+// Standard-mapping button indices
+const BUTTON_A = 0;
+const BUTTON_B = 1;
+const BUTTON_X = 2;
+const BUTTON_RB = 5;
+const DPAD_UP = 12;
+const DPAD_LEFT = 14;
+const DPAD_RIGHT = 15;
+
+// Stick travel below this is treated as centered
+export const GAMEPAD_DEADZONE = 0.3;
+
+export type GamepadInfo = { index: number; id: string };
+
+// playerId -> gamepad index (null = keyboard only)
+export type GamepadAssignments = Record<number, number | null>;
+
+function buttonDown(pad: Gamepad, index: number) {
+  const b = pad.buttons[index];
+  return !!b && (b.pressed || b.value > 0.5);
+}
+
+function listPads(): GamepadInfo[] {
+  if (typeof navigator === "undefined" || !navigator.getGamepads) return [];
+  return Array.from(navigator.getGamepads())
+    .filter((p): p is Gamepad => !!p && p.connected)
+    .map((p) => ({ index: p.index, id: p.id }));
+}
+
+// Polls the Gamepad API and translates each assigned controller into the
+// bound keys of its player, so the simulation sees the same input shape as
+// the keyboard.
+export function useGamepads() {
+  const [pads, setPads] = useState<GamepadInfo[]>([]);
+  const prevDashRef = useRef<Map<number, boolean>>(new Map());
+
+  useEffect(() => {
+    const refresh = () => setPads(listPads());
+    refresh();
+    window.addEventListener("gamepadconnected", refresh);
+    window.addEventListener("gamepaddisconnected", refresh);
+    return () => {
+      window.removeEventListener("gamepadconnected", refresh);
+      window.removeEventListener("gamepaddisconnected", refresh);
+    };
+  }, []);
+
+  const poll = useCallback(
+    (assignments: GamepadAssignments, players: Player[]): InputSnapshot => {
+      const pressed = new Set<string>();
+      const doubleTap = new Set<string>();
+      if (typeof navigator === "undefined" || !navigator.getGamepads) {
+        return { pressed, doubleTap };
+      }
+      const all = navigator.getGamepads();
+      for (const p of players) {
+        const index = assignments[p.id];
+        if (index === null || index === undefined) continue;
+        const pad = all[index];
+        if (!pad || !pad.connected) continue;
+
+        const { left, right, jump, action } = p.controls;
+        const x = pad.axes[0] ?? 0;
+        const y = pad.axes[1] ?? 0;
+        const leftDown = x < -GAMEPAD_DEADZONE || buttonDown(pad, DPAD_LEFT);
+        const rightDown = x > GAMEPAD_DEADZONE || buttonDown(pad, DPAD_RIGHT);
+        const upDown = y < -GAMEPAD_DEADZONE || buttonDown(pad, DPAD_UP);
+        if (leftDown) pressed.add(left);
+        if (rightDown) pressed.add(right);
+        if (buttonDown(pad, BUTTON_A) || buttonDown(pad, DPAD_UP)) {
+          pressed.add(jump);
+        }
+        // B dashes for Wind, so only X works its action
+        const dashes = !!elementById(p.id)?.dash;
+        if (
+          action &&
+          (buttonDown(pad, BUTTON_X) || (!dashes && buttonDown(pad, BUTTON_B)))
+        ) {
+          pressed.add(action);
+        }
+
+        // Wind dashes on a double tap; a dedicated button stands in for it
+        // and dashes toward the stick (up when centered)
+        if (dashes) {
+          const dashDown =
+            buttonDown(pad, BUTTON_RB) || buttonDown(pad, BUTTON_B);
+          const wasDown = prevDashRef.current.get(index) ?? false;
+          prevDashRef.current.set(index, dashDown);
+          if (dashDown && !wasDown) {
+            if (leftDown) doubleTap.add(left);
+            else if (rightDown) doubleTap.add(right);
+            else doubleTap.add(jump);
+            if (upDown) pressed.add(jump);
+          }
+        }
+      }
+      return { pressed, doubleTap };
+    },
+    []
+  );
+
+  return { pads, poll };
+}
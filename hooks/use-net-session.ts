@@ -0,0 +1,321 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { bindingKeys, filterInput, mergeInputs } from "@/lib/game/input";
+import {
+  createInputQueue,
+  encodeState,
+  firstFreeSlot,
+  HOST_PEER,
+  MAX_REMOTE_PLAYERS,
+  parseClientInputs,
+  type HostMessage,
+  type NetInput,
+  type SlotAssignments,
+} from "@/lib/game/net";
+import type { GameState, InputSnapshot, KeyBinding } from "@/lib/game/types";
+
+export type NetRole = "offline" | "host" | "client";
+export type NetPeer = { peerId: number; name: string };
+
+// Override with NEXT_PUBLIC_RELAY_URL when the relay runs elsewhere
+function relayUrl() {
+  if (process.env.NEXT_PUBLIC_RELAY_URL) {
+    return process.env.NEXT_PUBLIC_RELAY_URL;
+  }
+  const scheme = window.location.protocol === "https:" ? "wss" : "ws";
+  return `${scheme}://${window.location.hostname}:8787`;
+}
+
+const ALL_LOCAL: SlotAssignments = {
+  1: HOST_PEER,
+  2: HOST_PEER,
+  3: HOST_PEER,
+  4: HOST_PEER,
+};
+
+// Lobby and transport for online play. The host keeps one input queue per
+// client and sends snapshots; a client forwards everything from the host to
+// onHostMessage.
+export function useNetSession({
+  bindings,
+  onHostMessage,
+}: {
+  bindings: Record<number, KeyBinding>;
+  onHostMessage: (msg: HostMessage) => void;
+}) {
+  const [role, setRole] = useState<NetRole>("offline");
+  const [code, setCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [peers, setPeers] = useState<NetPeer[]>([]);
+  const [slots, setSlots] = useState<SlotAssignments>(ALL_LOCAL);
+  const [myPeerId, setMyPeerId] = useState<number | null>(null);
+  // playerId -> display name of whoever plays it
+  const [slotNames, setSlotNames] = useState<Record<number, string>>({});
+
+  const wsRef = useRef<WebSocket | null>(null);
+  // Mirrors of the state above for the game loop
+  const roleRef = useRef<NetRole>("offline");
+  const myPeerIdRef = useRef<number | null>(null);
+  const queuesRef = useRef(
+    new Map<number, ReturnType<typeof createInputQueue>>()
+  );
+  const peersRef = useRef<NetPeer[]>([]);
+  const slotsRef = useRef<SlotAssignments>(ALL_LOCAL);
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  const onHostMessageRef = useRef(onHostMessage);
+  onHostMessageRef.current = onHostMessage;
+
+  const send = (msg: object) => {
+    const ws = wsRef.current;
+    if (ws && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+  };
+  const sendToPeer = (peerId: number, data: HostMessage) =>
+    send({ type: "toPeer", peerId, data });
+  const broadcast = (data: HostMessage) => send({ type: "broadcast", data });
+
+  const computeSlotNames = () => {
+    const names: Record<number, string> = {};
+    for (const [id, owner] of Object.entries(slotsRef.current)) {
+      if (owner === HOST_PEER) names[Number(id)] = "Host";
+      else if (owner !== null) {
+        names[Number(id)] =
+          peersRef.current.find((p) => p.peerId === owner)?.name ?? "";
+      }
+    }
+    return names;
+  };
+
+  const publishSlots = (next: SlotAssignments) => {
+    slotsRef.current = next;
+    const names = computeSlotNames();
+    setSlots(next);
+    setSlotNames(names);
+    broadcast({ type: "slots", slots: next, names });
+  };
+
+  const reset = () => {
+    wsRef.current = null;
+    queuesRef.current.clear();
+    peersRef.current = [];
+    slotsRef.current = ALL_LOCAL;
+    roleRef.current = "offline";
+    myPeerIdRef.current = null;
+    setRole("offline");
+    setCode(null);
+    setConnecting(false);
+    setPeers([]);
+    setSlots(ALL_LOCAL);
+    setSlotNames({});
+    setMyPeerId(null);
+  };
+
+  // Messages from the relay. Peer ids, codes and names come from the relay
+  // itself; `data` was written by another browser and is checked before
+  // use.
+  function handleMessage(raw: unknown) {
+    if (!raw || typeof raw !== "object") return;
+    const msg = raw as Record<string, unknown>;
+    const peerId = Number(msg.peerId);
+    switch (msg.type) {
+      case "hosted":
+        roleRef.current = "host";
+        setRole("host");
+        setCode(String(msg.code));
+        setConnecting(false);
+        break;
+      case "joined":
+        roleRef.current = "client";
+        myPeerIdRef.current = peerId;
+        setRole("client");
+        setCode(String(msg.code));
+        setMyPeerId(peerId);
+        setConnecting(false);
+        break;
+      case "error":
+        setError(String(msg.message));
+        // Failed to host or join: nothing left to do on this socket
+        if (roleRef.current === "offline") wsRef.current?.close();
+        break;
+      case "peerJoined": {
+        const peer: NetPeer = { peerId, name: String(msg.name) };
+        peersRef.current = [...peersRef.current, peer];
+        setPeers(peersRef.current);
+        queuesRef.current.set(peer.peerId, createInputQueue());
+        sendToPeer(peer.peerId, {
+          type: "welcome",
+          bindings: bindingsRef.current,
+        });
+        const slot = firstFreeSlot(slotsRef.current);
+        publishSlots(
+          slot === null
+            ? slotsRef.current
+            : { ...slotsRef.current, [slot]: peer.peerId }
+        );
+        break;
+      }
+      case "peerLeft": {
+        peersRef.current = peersRef.current.filter((p) => p.peerId !== peerId);
+        setPeers(peersRef.current);
+        queuesRef.current.delete(peerId);
+        const next = { ...slotsRef.current };
+        for (const id of Object.keys(next)) {
+          if (next[Number(id)] === peerId) next[Number(id)] = HOST_PEER;
+        }
+        publishSlots(next);
+        break;
+      }
+      case "fromPeer": {
+        const inputs = parseClientInputs(msg.data);
+        if (inputs) queuesRef.current.get(peerId)?.push(inputs);
+        break;
+      }
+      case "fromHost": {
+        if (!msg.data || typeof msg.data !== "object") break;
+        const data = msg.data as HostMessage;
+        if (data.type === "slots") {
+          slotsRef.current = data.slots;
+          setSlots(data.slots);
+          setSlotNames(data.names);
+        }
+        onHostMessageRef.current(data);
+        break;
+      }
+      case "hostLeft":
+        setError("The host left the lobby");
+        break;
+    }
+  }
+
+  const connect = (first: object) => {
+    wsRef.current?.close();
+    setError(null);
+    setConnecting(true);
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(relayUrl());
+    } catch (err) {
+      setConnecting(false);
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    wsRef.current = ws;
+    ws.onopen = () => ws.send(JSON.stringify(first));
+    ws.onmessage = (e) => {
+      try {
+        handleMessage(JSON.parse(String(e.data)));
+      } catch {
+        // Ignore malformed relay messages
+      }
+    };
+    ws.onerror = () => setError("Could not reach the relay server");
+    ws.onclose = () => {
+      if (wsRef.current === ws) reset();
+    };
+  };
+
+  const host = useCallback(() => connect({ type: "host" }), []);
+  const join = useCallback(
+    (lobbyCode: string, name: string) =>
+      connect({ type: "join", code: lobbyCode.trim().toUpperCase(), name }),
+    []
+  );
+  const leave = useCallback(() => {
+    const ws = wsRef.current;
+    reset();
+    ws?.close();
+  }, []);
+
+  useEffect(() => () => wsRef.current?.close(), []);
+
+  // Clients filter their input against the host's keys, so a rebind on
+  // the host has to reach the clients already in the lobby
+  useEffect(() => {
+    if (roleRef.current === "host") broadcast({ type: "welcome", bindings });
+  }, [bindings]);
+
+  // Host: give a player slot to a client, to the host (HOST_PEER) or to
+  // nobody. A client holds at most one slot, so its old one returns to
+  // the host.
+  const assignSlot = useCallback((playerId: number, peerId: number | null) => {
+    const next = { ...slotsRef.current };
+    if (peerId !== null && peerId !== HOST_PEER) {
+      for (const id of Object.keys(next)) {
+        if (next[Number(id)] === peerId) next[Number(id)] = HOST_PEER;
+      }
+    }
+    next[playerId] = peerId;
+    publishSlots(next);
+  }, []);
+
+  // Host: one tick of every client's input, limited to the keys of the
+  // slot each client holds
+  const takeRemoteInput = useCallback((): InputSnapshot => {
+    const inputs: InputSnapshot[] = [];
+    queuesRef.current.forEach((queue, peerId) => {
+      const input = queue.next();
+      const owned = Object.keys(slotsRef.current)
+        .map(Number)
+        .filter((id) => slotsRef.current[id] === peerId)
+        .map((id) => bindingsRef.current[id]);
+      inputs.push(filterInput(input, bindingKeys(owned)));
+    });
+    return mergeInputs(...inputs);
+  }, []);
+
+  const sendSnapshots = useCallback(
+    (state: GameState, pressed: ReadonlySet<string>, paused: boolean) => {
+      if (queuesRef.current.size === 0) return;
+      const wire = encodeState(state);
+      const held = Array.from(pressed);
+      queuesRef.current.forEach((queue, peerId) =>
+        sendToPeer(peerId, {
+          type: "snapshot",
+          state: wire,
+          ack: queue.ack,
+          pressed: held,
+          paused,
+        })
+      );
+    },
+    []
+  );
+
+  // Client: forward this frame's ticks to the host
+  const sendInputs = useCallback((inputs: NetInput[]) => {
+    if (inputs.length)
+      send({ type: "toHost", data: { type: "input", inputs } });
+  }, []);
+
+  // Player ids this browser controls; safe to call from the game loop
+  const localSlots = useCallback((): number[] => {
+    const owner =
+      roleRef.current === "client" ? myPeerIdRef.current : HOST_PEER;
+    return Object.keys(slotsRef.current)
+      .map(Number)
+      .filter((id) => slotsRef.current[id] === owner);
+  }, []);
+
+  return {
+    role,
+    roleRef,
+    code,
+    error,
+    connecting,
+    peers,
+    slots,
+    slotNames,
+    myPeerId,
+    maxPeers: MAX_REMOTE_PLAYERS,
+    localSlots,
+    host,
+    join,
+    leave,
+    assignSlot,
+    takeRemoteInput,
+    sendSnapshots,
+    sendInputs,
+  };
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import { useCallback, useRef } from "react";
+import type { InputSnapshot } from "@/lib/game/types";
+
+// Key state fed by the on-screen touch controls. Each active pointer holds
+// at most one key, so lifting one finger never releases another's button.
+export function useTouchInput() {
+  const held = useRef<Map<number, string>>(new Map());
+  const doubleTap = useRef<Set<string>>(new Set());
+
+  const press = useCallback((pointerId: number, key: string) => {
+    held.current.set(pointerId, key);
+  }, []);
+  const release = useCallback((pointerId: number) => {
+    held.current.delete(pointerId);
+  }, []);
+  const tap = useCallback((key: string) => {
+    doubleTap.current.add(key);
+  }, []);
+
+  const takeSnapshot = useCallback((): InputSnapshot => {
+    const snapshot = {
+      pressed: new Set(held.current.values()),
+      doubleTap: new Set(doubleTap.current),
+    };
+    doubleTap.current.clear();
+    return snapshot;
+  }, []);
+
+  return { press, release, tap, takeSnapshot };
+}
+
+export type TouchInput = ReturnType<typeof useTouchInput>;
@@ -0,0 +1,524 @@
+import { SIM_DT } from "./constants";
+import { elementById } from "./elements";
+import { createHeap } from "./heap";
+import { EMPTY_INPUT } from "./input";
+import { worldToTile } from "./math";
+import {
+  isHazardFor,
+  isLiquidForPlayer,
+  isPlate,
+  isSolid,
+  tileAt,
+  tileSolid,
+} from "./tiles";
+import type { GameState, InputSnapshot, Level, Player } from "./types";
+
+// Computer-controlled teammates. A bot reads the game state and answers with
+// the keys of its player's KeyBinding, like a keyboard would, so the
+// simulation treats it exactly like a human. It plans on the tile grid (one
+// node per tile its player can stand or swim in; edges for walking, falling
+// and jumping) and uses its element's ability whenever it is next to
+// something the ability handles.
+
+const JUMP_UP_TILES = 4;
+const JUMP_ACROSS_TILES = 5;
+// Dashers can dash in mid-air, so they leap further
+const LEAP_ACROSS_TILES = 8;
+const REPLAN_TICKS = 15;
+// Ticks without horizontal progress before a bot tries jumping
+const STUCK_TICKS = 45;
+// Tiles a bot keeps between itself and the human it follows
+const FOLLOW_DISTANCE = 2;
+
+type Move = "walk" | "fall" | "jump" | "leap" | "swim" | "build";
+type Step = { tx: number; ty: number; move: Move };
+type Edge = Step & { cost: number };
+
+// The tile as the player's action would leave it: Fire burns through
+// barriers on its way, and Water turns dark holes into water it can swim in
+function planned(level: Level, id: number, tx: number, ty: number) {
+  const ch = tileAt(level, tx, ty);
+  const clears = elementById(id)?.clears;
+  return clears && ch === clears.tile ? clears.into : ch;
+}
+
+function blocked(level: Level, id: number, tx: number, ty: number) {
+  const ch = planned(level, id, tx, ty);
+  if (ch !== tileAt(level, tx, ty)) return isSolid(ch, false);
+  return tileSolid(level, tx, ty);
+}
+
+function liquid(level: Level, id: number, tx: number, ty: number) {
+  return isLiquidForPlayer(planned(level, id, tx, ty), id);
+}
+
+function open(level: Level, id: number, tx: number, ty: number) {
+  if (blocked(level, id, tx, ty)) return false;
+  const ch = tileAt(level, tx, ty);
+  return !isHazardFor(ch, id) || liquid(level, id, tx, ty);
+}
+
+function standable(level: Level, id: number, tx: number, ty: number) {
+  if (!open(level, id, tx, ty)) return false;
+  if (liquid(level, id, tx, ty)) return true;
+  return tileSolid(level, tx, ty + 1);
+}
+
+function edgesFrom(level: Level, id: number, tx: number, ty: number) {
+  const element = elementById(id);
+  const edges: Edge[] = [];
+  const inLiquid = liquid(level, id, tx, ty);
+  for (const dir of [-1, 1]) {
+    const x = tx + dir;
+    if (standable(level, id, x, ty)) {
+      edges.push({ tx: x, ty, move: inLiquid ? "swim" : "walk", cost: 1 });
+    } else if (open(level, id, x, ty)) {
+      // Walk off the edge and drop onto whatever is below
+      let y = ty;
+      while (y < level.h && !standable(level, id, x, y)) {
+        if (!open(level, id, x, y + 1)) break;
+        y++;
+      }
+      if (standable(level, id, x, y)) {
+        edges.push({ tx: x, ty: y, move: "fall", cost: 1 + (y - ty) / 2 });
+      }
+    }
+  }
+  if (inLiquid) {
+    for (const dy of [-1, 1]) {
+      if (liquid(level, id, tx, ty + dy)) {
+        edges.push({ tx, ty: ty + dy, move: "swim", cost: 2 });
+      }
+    }
+    // Sink out of the bottom of a pool
+    let y = ty + 1;
+    while (y < level.h && open(level, id, tx, y) && !liquid(level, id, tx, y)) {
+      if (standable(level, id, tx, y)) {
+        edges.push({ tx, ty: y, move: "fall", cost: 1 + (y - ty) / 2 });
+        break;
+      }
+      y++;
+    }
+    // Climb out onto a ledge next to the surface
+    if (open(level, id, tx, ty - 1) && !liquid(level, id, tx, ty - 1)) {
+      for (const dir of [-1, 1]) {
+        if (standable(level, id, tx + dir, ty - 1)) {
+          edges.push({ tx: tx + dir, ty: ty - 1, move: "swim", cost: 3 });
+        }
+      }
+    }
+    return edges;
+  }
+
+  // A jump always rises its full height unless a ceiling stops it, so
+  // every column it passes must be free of hazards up to the top
+  const apex = ty - JUMP_UP_TILES;
+  const safeColumn = (x: number, from: number) => {
+    for (let y = from; y >= apex; y--) {
+      if (blocked(level, id, x, y)) return true;
+      if (!open(level, id, x, y)) return false;
+    }
+    return true;
+  };
+  const headroom = (x: number) => {
+    if (!safeColumn(x, ty - 1)) return 0;
+    let up = 0;
+    while (up < JUMP_UP_TILES && open(level, id, x, ty - up - 1)) up++;
+    return up;
+  };
+
+  if (standable(level, id, tx, ty)) {
+    for (let up = 1; up <= headroom(tx); up++) {
+      // Plates hanging in the air are pressed by jumping through them
+      if (isPlate(tileAt(level, tx, ty - up))) {
+        edges.push({ tx, ty: ty - up, move: "jump", cost: up + 2 });
+      }
+      // Earth jumps and builds a block under itself to stand on. Its
+      // cooldown outlasts the block, so never twice in a row.
+      if (element?.builds) {
+        edges.push({ tx, ty: ty - up, move: "build", cost: up + 4 });
+      }
+    }
+  }
+
+  // Jumps: up as far as the ceiling allows (above this tile or the next one
+  // over), then across at the peak row and down onto the landing tile
+  const across = element?.dash ? LEAP_ACROSS_TILES : JUMP_ACROSS_TILES;
+  for (const dir of [-1, 1]) {
+    const room = Math.max(
+      headroom(tx),
+      open(level, id, tx + dir, ty) ? headroom(tx + dir) : 0
+    );
+    if (room === 0) continue;
+    // A low ceiling cuts the jump short, and so the time in the air
+    const reach = room >= JUMP_UP_TILES ? across : room + 1;
+    for (let up = room; up >= -3; up--) {
+      const peak = ty - Math.max(up, 1);
+      // Less time to drift sideways before reaching the highest ledges
+      const maxD = up >= 3 ? 3 : Math.min(across, reach + Math.max(-up, 0));
+      for (let d = 1; d <= maxD; d++) {
+        const x = tx + dir * d;
+        if (!open(level, id, x, peak)) break;
+        if (up <= 0 && d === 1) continue;
+        if (!safeColumn(x, peak - 1)) continue;
+        let clear = true;
+        for (let y = peak + 1; y <= ty - up; y++) {
+          if (!open(level, id, x, y)) clear = false;
+        }
+        if (!clear || !standable(level, id, x, ty - up)) continue;
+        const leap = d > JUMP_ACROSS_TILES;
+        edges.push({
+          tx: x,
+          ty: ty - up,
+          move: leap ? "leap" : "jump",
+          cost: d + Math.max(up, 0) * 1.5 + (leap ? 6 : 2),
+        });
+      }
+    }
+  }
+  return edges;
+}
+
+// Cheapest moves from one tile to every tile the player can reach
+function planFrom(level: Level, id: number, start: { tx: number; ty: number }) {
+  const n = level.w * level.h;
+  const dist = new Array<number>(n).fill(Infinity);
+  const via = new Array<Edge | null>(n).fill(null);
+  const from = new Array<number>(n).fill(-1);
+  const startIndex = start.ty * level.w + start.tx;
+  dist[startIndex] = 0;
+  // [cost, tile index]
+  const heap = createHeap<[number, number]>((item) => item[0]);
+  heap.push([0, startIndex]);
+  for (let item = heap.pop(); item; item = heap.pop()) {
+    const [d, i] = item;
+    if (d > dist[i]) continue;
+    const x = i % level.w;
+    const y = (i - x) / level.w;
+    // Mid-air targets are dead ends, except the block Earth builds and the
+    // start, where a teammate, crate or platform may be holding it up
+    if (
+      i !== startIndex &&
+      !standable(level, id, x, y) &&
+      via[i]?.move !== "build"
+    ) {
+      continue;
+    }
+    for (const edge of edgesFrom(level, id, x, y)) {
+      const j = edge.ty * level.w + edge.tx;
+      if (d + edge.cost >= dist[j]) continue;
+      dist[j] = d + edge.cost;
+      via[j] = edge;
+      from[j] = i;
+      heap.push([dist[j], j]);
+    }
+  }
+  const pathTo = (tx: number, ty: number): Step[] => {
+    const path: Step[] = [];
+    for (let i = ty * level.w + tx; i !== startIndex && from[i] !== -1; ) {
+      path.unshift(via[i]!);
+      i = from[i];
+    }
+    return path;
+  };
+  return { dist, pathTo };
+}
+
+function playerTile(level: Level, p: Player) {
+  return worldToTile(p.pos.x, p.pos.y, level.tileSize);
+}
+
+// Tile a player counts as standing in. Over the edge of a ledge its center
+// can hang above a gap while the feet still rest on the next tile.
+function standingTile(level: Level, p: Player) {
+  const center = playerTile(level, p);
+  if (!p.onGround || standable(level, p.id, center.tx, center.ty)) {
+    return center;
+  }
+  for (const x of [p.pos.x - p.w / 2, p.pos.x + p.w / 2 - 1]) {
+    const side = worldToTile(x, p.pos.y, level.tileSize);
+    if (standable(level, p.id, side.tx, side.ty)) return side;
+  }
+  return center;
+}
+
+function onPlate(level: Level, p: Player) {
+  const { tx, ty } = playerTile(level, p);
+  return isPlate(tileAt(level, tx, ty)) && p.onGround;
+}
+
+// Earth's block goes in the tile just under its feet. Only place it while
+// the feet are still above that tile, or the block lands inside the body.
+function blockRowBelow(me: Player, tileSize: number) {
+  const feet = me.pos.y + me.vel.y * SIM_DT + me.h / 2;
+  const row = Math.floor((feet + 4) / tileSize);
+  return feet <= row * tileSize ? row : null;
+}
+
+// What a bot wants to do next: go somewhere, or hold still where it is
+type Goal = { tx: number; ty: number } | "stay";
+
+function chooseGoal(
+  s: GameState,
+  me: Player,
+  humans: number[],
+  plan: ReturnType<typeof planFrom>
+): Goal | null {
+  const { level } = s;
+  const reachable = (tx: number, ty: number) =>
+    plan.dist[ty * level.w + tx] !== Infinity;
+  const nearest = (tiles: Array<{ tx: number; ty: number }>) => {
+    let best: { tx: number; ty: number } | null = null;
+    for (const t of tiles) {
+      if (!reachable(t.tx, t.ty)) continue;
+      const d = plan.dist[t.ty * level.w + t.tx];
+      if (!best || d < plan.dist[best.ty * level.w + best.tx]) best = t;
+    }
+    return best;
+  };
+  const others = s.players.filter((p) => p.id !== me.id && !p.exitReached);
+
+  // Hold a door open while the others still have somewhere to go
+  const hasDoors = level.tiles.some((row) => row.includes("Q"));
+  if (hasDoors && others.length > 0) {
+    const othersOnPlates = others.filter((p) => onPlate(level, p)).length;
+    if (othersOnPlates < level.options.platesToOpenDoors) {
+      if (onPlate(level, me)) return "stay";
+      const free: Array<{ tx: number; ty: number }> = [];
+      s.plates.forEach((st) => {
+        const taken = s.players.some((p) => {
+          const t = playerTile(level, p);
+          return p.id !== me.id && t.tx === st.tx && t.ty === st.ty;
+        });
+        if (!taken) free.push(st);
+      });
+      const plate = nearest(free);
+      if (plate) return plate;
+    }
+  }
+
+  // Every plate has to be pressed once before the level counts as won
+  if (level.options.requireAllPlates) {
+    const unpressed: Array<{ tx: number; ty: number }> = [];
+    s.plates.forEach((st) => {
+      if (!st.pressed) unpressed.push(st);
+    });
+    const plate = nearest(unpressed);
+    if (plate) return plate;
+  }
+
+  if (me.exitReached) return "stay";
+  const gate = nearest(
+    (s.exits[me.id] ?? []).map((ex) => worldToTile(ex.x, ex.y, level.tileSize))
+  );
+  if (gate) return gate;
+
+  // Gate out of reach: clear the way for everyone. Fire burns barriers and
+  // Water fills dark holes, both of which its planner already walks through.
+  const obstacle = elementById(me.id)?.clears?.tile;
+  if (obstacle) {
+    const targets: Array<{ tx: number; ty: number }> = [];
+    level.tiles.forEach((row, ty) => {
+      for (let tx = 0; tx < level.w; tx++) {
+        if (row[tx] === obstacle) targets.push({ tx, ty });
+      }
+    });
+    const target = nearest(targets);
+    if (target) return target;
+  }
+
+  // Nowhere useful to go yet: tag along with the closest human
+  const mine = playerTile(level, me);
+  let leader: Player | null = null;
+  let leaderDist = Infinity;
+  for (const p of s.players) {
+    if (!humans.includes(p.id) || !p.alive) continue;
+    const t = playerTile(level, p);
+    const d = Math.abs(t.tx - mine.tx) + Math.abs(t.ty - mine.ty);
+    if (d < leaderDist) {
+      leader = p;
+      leaderDist = d;
+    }
+  }
+  if (!leader || leaderDist <= FOLLOW_DISTANCE) return "stay";
+  const target = playerTile(level, leader);
+  let best: { tx: number; ty: number } | null = null;
+  let bestDist = Infinity;
+  for (let ty = 0; ty < level.h; ty++) {
+    for (let tx = 0; tx < level.w; tx++) {
+      if (!reachable(tx, ty)) continue;
+      const d = Math.abs(tx - target.tx) + Math.abs(ty - target.ty);
+      if (d < bestDist) {
+        best = { tx, ty };
+        bestDist = d;
+      }
+    }
+  }
+  return best;
+}
+
+export type Bot = ReturnType<typeof createBot>;
+
+export function createBot(playerId: number) {
+  const element = elementById(playerId);
+  let path: Step[] = [];
+  let goal: Goal | null = null;
+  let sinceReplan = REPLAN_TICKS;
+  let stuckTicks = 0;
+  let lastX = 0;
+  let actionHeld = false;
+  // The move being carried out, kept while airborne
+  let current: Step | null = null;
+
+  function replan(
+    s: GameState,
+    me: Player,
+    humans: number[],
+    start: { tx: number; ty: number }
+  ) {
+    if (!me.onGround && !standable(s.level, playerId, start.tx, start.ty)) {
+      return;
+    }
+    const plan = planFrom(s.level, playerId, start);
+    goal = chooseGoal(s, me, humans, plan);
+    path = goal && goal !== "stay" ? plan.pathTo(goal.tx, goal.ty) : [];
+    sinceReplan = 0;
+  }
+
+  // Reactive ability use; returns true when the action key should go down
+  function wantsAction(s: GameState, me: Player, heading: -1 | 0 | 1) {
+    const { level } = s;
+    const { tx, ty } = playerTile(level, me);
+    const next = path[0];
+    const clears = element?.clears;
+    if (clears?.reach === "ahead") {
+      // Burn the barrier in the way: ahead, or above/below when the path
+      // goes that way
+      if (heading !== 0 && tileAt(level, tx + heading, ty) === clears.tile) {
+        return me.facing === heading;
+      }
+      if (next && next.ty < ty && tileAt(level, tx, ty - 1) === clears.tile) {
+        return true;
+      }
+      return (
+        !!next && next.ty > ty && tileAt(level, tx, ty + 1) === clears.tile
+      );
+    }
+    if (clears?.reach === "around") {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (tileAt(level, tx + dx, ty + dy) === clears.tile) return true;
+        }
+      }
+      return false;
+    }
+    if (element?.builds) {
+      if (s.time < me.abilityCooldownUntil || me.onGround) return false;
+      const row = blockRowBelow(me, level.tileSize);
+      if (row === null) return false;
+      if (current?.move === "build") return row === current.ty + 1;
+      // Catch itself when coming down over a gap
+      if (me.vel.y < 0) return false;
+      return (
+        current?.move === "leap" ||
+        isHazardFor(tileAt(level, tx, row), playerId)
+      );
+    }
+    return false;
+  }
+
+  function think(s: GameState, humans: number[]): InputSnapshot {
+    const me = s.players.find((p) => p.id === playerId);
+    if (!me || !me.alive) return EMPTY_INPUT;
+    const { level } = s;
+    const { left, right, jump, action } = me.controls;
+    const pressed = new Set<string>();
+    const doubleTap = new Set<string>();
+
+    const here = standingTile(level, me);
+    const grounded = me.onGround || liquid(level, playerId, here.tx, here.ty);
+    if (grounded && ++sinceReplan >= REPLAN_TICKS) {
+      replan(s, me, humans, here);
+    }
+    // Drop steps already reached
+    while (
+      path.length &&
+      grounded &&
+      path[0].tx === here.tx &&
+      path[0].ty === here.ty
+    ) {
+      path.shift();
+    }
+    if (grounded) current = path[0] ?? null;
+
+    let heading: -1 | 0 | 1 = 0;
+    const target = current;
+    if (target && goal !== "stay") {
+      const cx = (target.tx + 0.5) * level.tileSize;
+      const dx = cx - me.pos.x;
+      if (Math.abs(dx) > 4) heading = dx > 0 ? 1 : -1;
+      const climbing = target.ty < here.ty;
+      // Rise clear of a ledge before drifting over it
+      let holdBack = false;
+      if (climbing && heading !== 0) {
+        for (let y = target.ty; y <= here.ty; y++) {
+          if (!open(level, playerId, here.tx + heading, y)) holdBack = true;
+        }
+      }
+      if (heading === 1 && !holdBack) pressed.add(right);
+      if (heading === -1 && !holdBack) pressed.add(left);
+      if (
+        target.move === "jump" ||
+        target.move === "leap" ||
+        target.move === "build"
+      ) {
+        // Take off once there is headroom (letting go first if the last
+        // jump is still latched); keep holding while rising
+        const takeOff =
+          !me.jumpLock && open(level, playerId, here.tx, here.ty - 1);
+        if (me.onGround ? takeOff : me.vel.y < 0) {
+          pressed.add(jump);
+        }
+      } else if (target.move === "swim" && climbing) {
+        pressed.add(jump);
+      }
+
+      // Dash across when a leap would otherwise fall short
+      if (
+        element?.dash &&
+        target.move === "leap" &&
+        !me.onGround &&
+        me.vel.y >= 0 &&
+        heading !== 0 &&
+        s.time >= me.dashCooldownUntil
+      ) {
+        doubleTap.add(heading === 1 ? right : left);
+      }
+
+      // Hop when pushing against something for too long
+      if (heading !== 0 && Math.abs(me.pos.x - lastX) < 0.5) {
+        if (++stuckTicks > STUCK_TICKS) {
+          pressed.add(jump);
+          if (stuckTicks > STUCK_TICKS * 2) {
+            stuckTicks = 0;
+            sinceReplan = REPLAN_TICKS;
+          }
+        }
+      } else {
+        stuckTicks = 0;
+      }
+    }
+    lastX = me.pos.x;
+
+    // The action only fires on a fresh press, so let go in between
+    if (action && !actionHeld && wantsAction(s, me, heading)) {
+      pressed.add(action);
+      actionHeld = true;
+    } else {
+      actionHeld = false;
+    }
+    return { pressed, doubleTap };
+  }
+
+  return { think };
+}
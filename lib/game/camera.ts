@@ -0,0 +1,163 @@
+import { clamp } from "./math";
+import type { Level, Player, Vec2 } from "./types";
+
+// World-to-screen transform for the play area, shared by everyone at the
+// keyboard. The camera frames the box around all living players and zooms
+// out as they spread apart, between MIN_TILE_PX and MAX_TILE_PX per tile.
+// A level that fits the view at a larger tile size never zooms out further
+// than that.
+export const MIN_TILE_PX = 24;
+export const MAX_TILE_PX = 56;
+// How quickly the camera catches up with its target (per second)
+const FOLLOW_RATE = 6;
+const ZOOM_RATE = 3;
+// Space kept around the players' box, in tiles
+const FRAME_MARGIN = 3;
+
+export type Camera = {
+  // World point at the center of the view
+  x: number;
+  y: number;
+  // CSS pixels per world pixel
+  zoom: number;
+  // View size in CSS pixels
+  viewW: number;
+  viewH: number;
+};
+
+export type Bounds = { x0: number; y0: number; x1: number; y1: number };
+
+export function createCamera(): Camera {
+  return { x: 0, y: 0, zoom: 1, viewW: 1, viewH: 1 };
+}
+
+// Zoom at which the whole level fits the view, but never below MIN_TILE_PX
+export function fitZoom(level: Level, viewW: number, viewH: number) {
+  const fit = Math.min(
+    viewW / (level.w * level.tileSize),
+    viewH / (level.h * level.tileSize)
+  );
+  return Math.max(fit, MIN_TILE_PX / level.tileSize);
+}
+
+export function zoomLimits(level: Level, viewW: number, viewH: number) {
+  const min = fitZoom(level, viewW, viewH);
+  return { min, max: Math.max(min, MAX_TILE_PX / level.tileSize) };
+}
+
+// Keep the view inside the level; an axis smaller than the view is centered
+export function clampToLevel(cam: Camera, level: Level) {
+  const worldW = level.w * level.tileSize;
+  const worldH = level.h * level.tileSize;
+  const halfW = cam.viewW / cam.zoom / 2;
+  const halfH = cam.viewH / cam.zoom / 2;
+  cam.x =
+    worldW <= halfW * 2 ? worldW / 2 : clamp(cam.x, halfW, worldW - halfW);
+  cam.y =
+    worldH <= halfH * 2 ? worldH / 2 : clamp(cam.y, halfH, worldH - halfH);
+}
+
+// Box around the living players' bodies, or null when nobody is alive
+export function playersBounds(players: Player[]): Bounds | null {
+  let b: Bounds | null = null;
+  for (const p of players) {
+    if (!p.alive) continue;
+    const x0 = p.pos.x - p.w / 2;
+    const y0 = p.pos.y - p.h / 2;
+    const x1 = p.pos.x + p.w / 2;
+    const y1 = p.pos.y + p.h / 2;
+    b = b
+      ? {
+          x0: Math.min(b.x0, x0),
+          y0: Math.min(b.y0, y0),
+          x1: Math.max(b.x1, x1),
+          y1: Math.max(b.y1, y1),
+        }
+      : { x0, y0, x1, y1 };
+  }
+  return b;
+}
+
+// Center and zoom that frame the living players
+function frameTarget(cam: Camera, level: Level, players: Player[]) {
+  const b = playersBounds(players);
+  if (!b) return null;
+  const margin = FRAME_MARGIN * level.tileSize;
+  const { min, max } = zoomLimits(level, cam.viewW, cam.viewH);
+  const zoom = clamp(
+    Math.min(
+      cam.viewW / (b.x1 - b.x0 + margin * 2),
+      cam.viewH / (b.y1 - b.y0 + margin * 2)
+    ),
+    min,
+    max
+  );
+  return { x: (b.x0 + b.x1) / 2, y: (b.y0 + b.y1) / 2, zoom };
+}
+
+// Ease toward framing the players; dt in seconds
+export function followPlayers(
+  cam: Camera,
+  level: Level,
+  players: Player[],
+  dt: number
+) {
+  const target = frameTarget(cam, level, players);
+  if (target) {
+    const k = 1 - Math.exp(-FOLLOW_RATE * dt);
+    cam.x += (target.x - cam.x) * k;
+    cam.y += (target.y - cam.y) * k;
+    // Zoom in log space so zooming in and out feel equally fast
+    const kz = 1 - Math.exp(-ZOOM_RATE * dt);
+    cam.zoom *= Math.pow(target.zoom / cam.zoom, kz);
+  } else {
+    const { min, max } = zoomLimits(level, cam.viewW, cam.viewH);
+    cam.zoom = clamp(cam.zoom, min, max);
+  }
+  clampToLevel(cam, level);
+}
+
+// Jump straight to the players, e.g. when a level starts
+export function snapToPlayers(cam: Camera, level: Level, players: Player[]) {
+  const target = frameTarget(cam, level, players);
+  if (target) {
+    cam.x = target.x;
+    cam.y = target.y;
+    cam.zoom = target.zoom;
+  } else {
+    cam.zoom = fitZoom(level, cam.viewW, cam.viewH);
+  }
+  clampToLevel(cam, level);
+}
+
+// Set the context so world coordinates draw where the camera shows them;
+// dpr is the canvas backing-store scale from resizeCanvas
+export function applyCamera(
+  ctx: CanvasRenderingContext2D,
+  cam: Camera,
+  dpr: number
+) {
+  const s = cam.zoom * dpr;
+  ctx.setTransform(
+    s,
+    0,
+    0,
+    s,
+    (cam.viewW / 2 - cam.x * cam.zoom) * dpr,
+    (cam.viewH / 2 - cam.y * cam.zoom) * dpr
+  );
+}
+
+export function worldToScreen(cam: Camera, x: number, y: number): Vec2 {
+  return {
+    x: (x - cam.x) * cam.zoom + cam.viewW / 2,
+    y: (y - cam.y) * cam.zoom + cam.viewH / 2,
+  };
+}
+
+export function screenToWorld(cam: Camera, x: number, y: number): Vec2 {
+  return {
+    x: (x - cam.viewW / 2) / cam.zoom + cam.x,
+    y: (y - cam.viewH / 2) / cam.zoom + cam.y,
+  };
+}
@@ -0,0 +1,51 @@
+export const TILE = 32;
+export const GRAVITY = 1800;
+export const MOVE_SPEED = 280;
+export const JUMP_SPEED = 700;
+export const MAX_FALL = 1200;
+export const FRICTION = 0.85;
+export const AIR_DRAG = 0.99;
+// FRICTION and the drag factors are per 60 Hz frame; see dragFactor
+export const DRAG_REFERENCE_HZ = 60;
+
+// Fixed simulation rate, independent of the display refresh rate
+export const SIM_HZ = 120;
+export const SIM_DT = 1 / SIM_HZ;
+// Drop simulation time rather than spiral when a frame takes too long
+export const MAX_STEPS_PER_FRAME = 8;
+
+// Swim tuning
+export const SWIM_SPEED = 180;
+export const SWIM_UP_FORCE = 1800;
+export const SWIM_MAX_UP = -260;
+export const SWIM_MAX_DOWN = 420;
+export const WATER_DRAG_X = 0.92;
+
+// Wind dash tuning
+export const DASH_SPEED = 900;
+export const DASH_DURATION = 0.18;
+export const DASH_COOLDOWN = 1;
+export const DOUBLE_TAP_WINDOW = 250;
+// Wind gust cooldown
+export const GUST_COOLDOWN = 1.5; // seconds
+
+// Earth tuning, in seconds unless noted. A block caught under a falling
+// Earth lasts EARTH_CATCH_LIFETIME, any other one EARTH_BLOCK_LIFETIME.
+export const EARTH_COOLDOWN = 2;
+export const DIG_COOLDOWN = 0.4;
+export const EARTH_CATCH_LIFETIME = 1.5;
+export const EARTH_BLOCK_LIFETIME = 7;
+// Earth blocks (pillar tiles included) that may exist at once
+export const MAX_EARTH_BLOCKS = 12;
+// How long the action must be held before the direction keys aim
+export const EARTH_AIM_HOLD = 0.2;
+// Pillars grow PILLAR_HEIGHT tiles, one every PILLAR_RISE_INTERVAL
+export const PILLAR_HEIGHT = 3;
+export const PILLAR_RISE_INTERVAL = 0.12;
+
+// Ice tuning: frozen water melts back after ICE_LIFETIME seconds, and
+// ICE_FRICTION (per 60 Hz frame) is how slowly speed changes on it
+export const ICE_LIFETIME = 8;
+export const ICE_FRICTION = 0.97;
+// Most water tiles one press can freeze
+export const ICE_MAX_TILES = 24;
@@ -0,0 +1,199 @@
+import {
+  AIR_DRAG,
+  FRICTION,
+  GRAVITY,
+  ICE_FRICTION,
+  MAX_FALL,
+  SWIM_MAX_DOWN,
+  WATER_DRAG_X,
+} from "./constants";
+import { worldToTile } from "./math";
+import { dragFactor, moveAndCollide, onIce } from "./physics";
+import { replaceChar, setTile, tileAt, tileCharAt } from "./tiles";
+import type {
+  Crate,
+  CrateMaterial,
+  GameState,
+  Level,
+  Player,
+  Solid,
+} from "./types";
+
+// Loose boxes that fall and collide like players do. They weigh plates
+// down, bridge holes, stack and ride moving platforms. Wooden crates burn
+// and float; stone ones, which Earth can make, sink.
+
+// Crate ids start here so Body.riding can tell them from entity ids
+const CRATE_ID_BASE = 1000;
+const CRATE_SIZE = 28;
+// Earth-made crates that may exist at once
+export const MAX_EARTH_CRATES = 3;
+const PUSH_SPEED: Record<CrateMaterial, number> = { wood: 160, stone: 100 };
+// Speed Wind's dash or gust gives a crate; a dash reaches DASH_BLOW_RANGE
+// tiles ahead
+const GUST_SPEED: Record<CrateMaterial, number> = { wood: 520, stone: 300 };
+const DASH_BLOW_RANGE = 4;
+const FLOAT_FORCE = GRAVITY * 1.6;
+const FLOAT_MAX_UP = -120;
+
+// Crate tiles are pulled out of the grid on load, like spawn digits
+export const CRATE_TILES: Record<string, CrateMaterial> = {
+  c: "wood",
+  S: "stone",
+};
+
+function createCrate(
+  id: number,
+  material: CrateMaterial,
+  x: number,
+  y: number,
+  fromEarth = false
+): Crate {
+  return {
+    id,
+    material,
+    fromEarth,
+    pos: { x, y },
+    vel: { x: 0, y: 0 },
+    w: CRATE_SIZE,
+    h: CRATE_SIZE,
+    onGround: false,
+  };
+}
+
+function nextCrateId(crates: Crate[]) {
+  return crates.reduce((id, c) => Math.max(id, c.id + 1), CRATE_ID_BASE);
+}
+
+export function findCrates(level: Level): Crate[] {
+  const crates: Crate[] = [];
+  const ts = level.tileSize;
+  for (let y = 0; y < level.h; y++) {
+    for (let x = 0; x < level.w; x++) {
+      const material = CRATE_TILES[level.tiles[y][x]];
+      if (!material) continue;
+      crates.push(
+        createCrate(
+          CRATE_ID_BASE + crates.length,
+          material,
+          x * ts + ts / 2,
+          y * ts + ts - CRATE_SIZE / 2
+        )
+      );
+      level.tiles[y] = replaceChar(level.tiles[y], x, ".");
+    }
+  }
+  return crates;
+}
+
+export function cloneCrate(c: Crate): Crate {
+  return { ...c, pos: { ...c.pos }, vel: { ...c.vel } };
+}
+
+export function crateSolids(crates: readonly Crate[], except?: Crate) {
+  return crates
+    .filter((c) => c !== except)
+    .map(
+      (c): Solid => ({
+        id: c.id,
+        pos: { x: c.pos.x - c.w / 2, y: c.pos.y - c.h / 2 },
+        w: c.w,
+        h: c.h,
+      })
+    );
+}
+
+export function updateCrates(s: GameState, dt: number) {
+  for (const c of s.crates) {
+    if (tileCharAt(s.level, c.pos.x, c.pos.y) === "W") {
+      if (c.material === "wood") {
+        c.vel.y = Math.max(c.vel.y - FLOAT_FORCE * dt, FLOAT_MAX_UP);
+      } else {
+        c.vel.y = Math.min(c.vel.y + GRAVITY * 0.15 * dt, SWIM_MAX_DOWN / 2);
+      }
+      c.vel.x *= dragFactor(WATER_DRAG_X, dt);
+      c.vel.y *= dragFactor(WATER_DRAG_X, dt);
+    } else {
+      c.vel.y = Math.min(c.vel.y + GRAVITY * dt, MAX_FALL);
+      const friction = onIce(s.level, c) ? ICE_FRICTION : FRICTION;
+      c.vel.x *= dragFactor(c.onGround ? friction : AIR_DRAG, dt);
+    }
+    if (Math.abs(c.vel.x) < 6) c.vel.x = 0;
+    moveAndCollide(s.level, c, dt, [
+      ...s.entities,
+      ...crateSolids(s.crates, c),
+    ]);
+  }
+}
+
+// A player walking into the side of a crate shoves it along
+export function pushCrates(s: GameState, p: Player, dir: -1 | 1) {
+  const edge = p.pos.x + (dir * p.w) / 2;
+  for (const c of s.crates) {
+    const face = c.pos.x - (dir * c.w) / 2;
+    if (Math.abs(face - edge) > 1) continue;
+    if (Math.abs(c.pos.y - p.pos.y) >= (c.h + p.h) / 2 - 2) continue;
+    c.vel.x = dir * PUSH_SPEED[c.material];
+  }
+}
+
+// Send a crate flying along the unit vector (dx, dy)
+export function blowCrate(c: Crate, dx: number, dy: number) {
+  c.vel.x = dx * GUST_SPEED[c.material];
+  if (dy < 0) c.vel.y = dy * GUST_SPEED[c.material];
+}
+
+// Wind's dash blows the crates in a narrow band ahead of it
+export function blowCrates(s: GameState, p: Player, dx: number, dy: number) {
+  const ts = s.level.tileSize;
+  for (const c of s.crates) {
+    const rx = c.pos.x - p.pos.x;
+    const ry = c.pos.y - p.pos.y;
+    const along = rx * dx + ry * dy;
+    const across = Math.abs(rx * dy - ry * dx);
+    if (along <= 0 || along > DASH_BLOW_RANGE * ts || across > ts) continue;
+    blowCrate(c, dx, dy);
+  }
+}
+
+// Fire's flames burn the wooden crates on the given tiles
+export function burnCrates(s: GameState, tiles: Array<[number, number]>) {
+  const ts = s.level.tileSize;
+  s.crates = s.crates.filter((c) => {
+    if (c.material !== "wood") return true;
+    const { tx, ty } = worldToTile(c.pos.x, c.pos.y, ts);
+    if (!tiles.some(([x, y]) => x === tx && y === ty)) return true;
+    s.events.push({ type: "crateBurn", x: c.pos.x, y: c.pos.y });
+    return false;
+  });
+}
+
+// Earth's quick second press turns the block it just placed into a loose
+// stone crate. Returns false when the block is already gone.
+export function loosenBlock(s: GameState, tx: number, ty: number) {
+  const { level } = s;
+  if (tileAt(level, tx, ty) !== "X") return false;
+  setTile(level, tx, ty, ".");
+  s.tempPlatforms = s.tempPlatforms.filter(
+    (tp) => tp.tx !== tx || tp.ty !== ty
+  );
+  const ts = level.tileSize;
+  s.crates.push(
+    createCrate(
+      nextCrateId(s.crates),
+      "stone",
+      tx * ts + ts / 2,
+      ty * ts + ts / 2,
+      true
+    )
+  );
+  s.events.push({ type: "earthPlace", tx, ty });
+  const earthMade = s.crates.filter((c) => c.fromEarth);
+  if (earthMade.length > MAX_EARTH_CRATES) {
+    const oldest = earthMade[0];
+    s.crates = s.crates.filter((c) => c !== oldest);
+    const at = worldToTile(oldest.pos.x, oldest.pos.y, ts);
+    s.events.push({ type: "earthCrumble", tx: at.tx, ty: at.ty });
+  }
+  return true;
+}
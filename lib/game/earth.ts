@@ -0,0 +1,219 @@
+import {
+  DIG_COOLDOWN,
+  DOUBLE_TAP_WINDOW,
+  EARTH_AIM_HOLD,
+  EARTH_BLOCK_LIFETIME,
+  EARTH_CATCH_LIFETIME,
+  EARTH_COOLDOWN,
+  MAX_EARTH_BLOCKS,
+  PILLAR_HEIGHT,
+  PILLAR_RISE_INTERVAL,
+} from "./constants";
+import { loosenBlock } from "./crates";
+import { carryRiders } from "./entities";
+import { rectIntersect, worldToTile } from "./math";
+import { isColoredHole, setTile, solidAt, tileAt, tileSolid } from "./tiles";
+import type { Body, GameState, Player } from "./types";
+
+// Earth's kit. A tap of the action key puts a short-lived block under a
+// falling Earth, or digs the soft dirt ahead, or places a block ahead.
+// Holding the key aims instead: the direction keys pick a tile next to
+// Earth (below when none are down) and letting go acts on it, digging
+// dirt, raising a pillar from the ground or placing a block in the air.
+// A quick second press loosens the last block into a stone crate.
+
+function canPlace(ch: string) {
+  return ch === "." || ch === "O" || ch === "W" || isColoredHole(ch);
+}
+
+// Whether Earth can put a block on the tile: it must be open, with no
+// player or crate in it. `except` may overlap it and gets pushed out on
+// top, which is how a block catches Earth underfoot.
+function canPlaceAt(s: GameState, tx: number, ty: number, except?: Body) {
+  if (!canPlace(tileAt(s.level, tx, ty))) return false;
+  const ts = s.level.tileSize;
+  const tile = { x: tx * ts, y: ty * ts, w: ts, h: ts };
+  return ![...s.players, ...s.crates].some(
+    (b) =>
+      b !== except &&
+      rectIntersect(
+        { x: b.pos.x - b.w / 2, y: b.pos.y - b.h / 2, w: b.w, h: b.h },
+        tile
+      )
+  );
+}
+
+// Puts an Earth block on the tile and retires the oldest past the cap
+function placeBlock(s: GameState, tx: number, ty: number, lifetime: number) {
+  setTile(s.level, tx, ty, "X");
+  s.tempPlatforms.push({ tx, ty, expiresAt: s.time + lifetime * 1000 });
+  s.events.push({ type: "earthPlace", tx, ty });
+  if (s.tempPlatforms.length > MAX_EARTH_BLOCKS) {
+    const oldest = s.tempPlatforms.shift();
+    if (oldest) {
+      s.events.push({ type: "earthCrumble", tx: oldest.tx, ty: oldest.ty });
+      setTile(s.level, oldest.tx, oldest.ty, ".");
+    }
+  }
+}
+
+function dig(s: GameState, tx: number, ty: number) {
+  setTile(s.level, tx, ty, ".");
+  s.events.push({ type: "earthDig", tx, ty });
+}
+
+// Tile-by-tile growth of the pillars raised this far. Anything standing in
+// a new tile is lifted on top of it; a ceiling in the way of the pillar or
+// of what it carries stops it early.
+export function growPillars(s: GameState) {
+  const { level } = s;
+  const ts = level.tileSize;
+  for (const pillar of s.pillars) {
+    if (pillar.grown >= pillar.height || s.time < pillar.nextAt) continue;
+    const ty = pillar.ty - pillar.grown;
+    const top = ty * ts;
+    const lifted: Array<{ b: Body; id: number }> = [
+      ...s.players.map((b) => ({ b, id: -b.id })),
+      ...s.crates.map((b) => ({ b, id: b.id })),
+    ].filter(
+      ({ b }) =>
+        Math.floor((b.pos.x - b.w / 2 + 1) / ts) <= pillar.tx &&
+        Math.floor((b.pos.x + b.w / 2 - 1) / ts) >= pillar.tx &&
+        b.pos.y + b.h / 2 > top &&
+        b.pos.y - b.h / 2 < top + ts
+    );
+    const headroom = ({ b }: { b: Body }) => {
+      const y = top - b.h - 0.01;
+      return (
+        !solidAt(level, b.pos.x - b.w / 2 + 1, y) &&
+        !solidAt(level, b.pos.x + b.w / 2 - 1, y)
+      );
+    };
+    if (!canPlace(tileAt(level, pillar.tx, ty)) || !lifted.every(headroom)) {
+      pillar.height = pillar.grown;
+      continue;
+    }
+    placeBlock(s, pillar.tx, ty, EARTH_BLOCK_LIFETIME);
+    for (const { b, id } of lifted) {
+      const dy = top - b.h / 2 - 0.01 - b.pos.y;
+      b.pos.y += dy;
+      b.vel.y = Math.min(b.vel.y, 0);
+      carryRiders(s, id, 0, dy);
+    }
+    pillar.grown++;
+    pillar.nextAt = s.time + PILLAR_RISE_INTERVAL * 1000;
+  }
+  s.pillars = s.pillars.filter((pillar) => pillar.grown < pillar.height);
+}
+
+// Tile a held action would act on, from the direction keys last seen
+export function earthAimTarget(s: GameState, p: Player) {
+  const { tx, ty } = worldToTile(p.pos.x, p.pos.y, s.level.tileSize);
+  const aim = p.earthAim ?? { dx: 0, dy: 1 };
+  return { tx: tx + aim.dx, ty: ty + aim.dy };
+}
+
+// Whether Earth has held its action long enough to be aiming
+export function earthAiming(s: GameState, p: Player) {
+  return !!p.earthAim && s.time - p.earthAim.since >= EARTH_AIM_HOLD * 1000;
+}
+
+// Tap: returns the cooldown (s) to start, or 0 when nothing happened
+function earthTap(s: GameState, p: Player) {
+  const { level } = s;
+  const under = worldToTile(p.pos.x, p.pos.y + p.h / 2 + 4, level.tileSize);
+  const ahead = worldToTile(
+    p.pos.x + p.facing * (p.w / 2 + 8),
+    p.pos.y,
+    level.tileSize
+  );
+  if (canPlaceAt(s, under.tx, under.ty, p)) {
+    placeBlock(s, under.tx, under.ty, EARTH_CATCH_LIFETIME);
+    p.lastBuild = { ...under, at: s.time };
+    return EARTH_COOLDOWN;
+  }
+  if (tileAt(level, ahead.tx, ahead.ty) === "d") {
+    dig(s, ahead.tx, ahead.ty);
+    return DIG_COOLDOWN;
+  }
+  if (canPlaceAt(s, ahead.tx, ahead.ty)) {
+    placeBlock(s, ahead.tx, ahead.ty, EARTH_BLOCK_LIFETIME);
+    p.lastBuild = { ...ahead, at: s.time };
+    return EARTH_COOLDOWN;
+  }
+  return 0;
+}
+
+// Aimed: returns the cooldown (s) to start, or 0 when nothing happened
+function earthAimed(s: GameState, p: Player) {
+  const { level } = s;
+  const { tx, ty } = earthAimTarget(s, p);
+  const ch = tileAt(level, tx, ty);
+  if (ch === "d") {
+    dig(s, tx, ty);
+    return DIG_COOLDOWN;
+  }
+  const below = p.earthAim!.dy === 1 && p.earthAim!.dx === 0;
+  // Aiming at the ground underfoot raises a pillar under Earth itself;
+  // aiming beside Earth at a tile with ground under it raises one there
+  const base =
+    below && tileSolid(level, tx, ty)
+      ? { tx, ty: ty - 1 }
+      : canPlace(ch) && p.earthAim!.dy >= 0 && tileSolid(level, tx, ty + 1)
+      ? { tx, ty }
+      : null;
+  if (base) {
+    if (!canPlace(tileAt(level, base.tx, base.ty))) return 0;
+    s.pillars.push({
+      ...base,
+      grown: 0,
+      height: PILLAR_HEIGHT,
+      nextAt: s.time,
+    });
+    return EARTH_COOLDOWN;
+  }
+  if (canPlaceAt(s, tx, ty, below ? p : undefined)) {
+    placeBlock(s, tx, ty, EARTH_BLOCK_LIFETIME);
+    p.lastBuild = { tx, ty, at: s.time };
+    return EARTH_COOLDOWN;
+  }
+  return 0;
+}
+
+// Runs every step for Earth: starts aiming on a press, follows the
+// direction keys while the action is held, and acts on release
+export function updateEarth(
+  s: GameState,
+  p: Player,
+  pressed: ReadonlySet<string>,
+  actionDown: boolean,
+  justPressed: boolean
+) {
+  const { left, right, jump } = p.controls;
+  if (justPressed) {
+    const last = p.lastBuild;
+    if (
+      last &&
+      s.time - last.at <= DOUBLE_TAP_WINDOW &&
+      loosenBlock(s, last.tx, last.ty)
+    ) {
+      p.lastBuild = undefined;
+      p.earthAim = undefined;
+      return;
+    }
+    p.earthAim = { since: s.time, dx: 0, dy: 1 };
+  }
+  if (!p.earthAim) return;
+  if (actionDown) {
+    const dx = (pressed.has(right) ? 1 : 0) - (pressed.has(left) ? 1 : 0);
+    const dy = pressed.has(jump) ? -1 : dx === 0 ? 1 : 0;
+    p.earthAim = { since: p.earthAim.since, dx, dy };
+    return;
+  }
+  const aimed = earthAiming(s, p);
+  if (s.time >= p.abilityCooldownUntil) {
+    const cooldown = aimed ? earthAimed(s, p) : earthTap(s, p);
+    if (cooldown > 0) p.abilityCooldownUntil = s.time + cooldown * 1000;
+  }
+  p.earthAim = undefined;
+}
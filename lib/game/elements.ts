@@ -0,0 +1,251 @@
+import { GUST_COOLDOWN } from "./constants";
+import { earthAimTarget, earthAiming, updateEarth } from "./earth";
+import { doFireAction } from "./fire";
+import { doWindAction } from "./gust";
+import type { GameEvent, GameState, Player } from "./types";
+import { doWaterAction } from "./water";
+
+// The playable elements. Everything that tells one character from another
+// is declared here: how it looks and sounds, what its action does, and
+// which level characters belong to it. A new character only needs an entry
+// in ELEMENTS; its tiles then show up in the editor, the validator and the
+// renderer.
+
+// Dust kicked up behind a walking player. Speeds are px/s; each [base,
+// extra] pair is a base value plus up to `extra` more at random.
+export type StepEffect = {
+  count: number;
+  // Random sideways speed, and the speed thrown back against the walk
+  spread: number;
+  kick: number;
+  rise: [number, number];
+  life: [number, number];
+  size: [number, number];
+  colorStart: string;
+  colorEnd: string;
+  gravity: number;
+  damping: number;
+  shape: "circle" | "square";
+  additive: boolean;
+};
+
+// What the action key does. `press` runs when the key goes down. `update`
+// runs every step instead, for actions that follow the key while it is
+// held; `steering` says when such an action has taken over the direction
+// keys, and `target` which tile it is aimed at then. `cooldown` is the
+// recharge time in seconds, for actions where it never varies.
+export type Ability = {
+  press?: (s: GameState, p: Player, pressed: ReadonlySet<string>) => void;
+  update?: (
+    s: GameState,
+    p: Player,
+    pressed: ReadonlySet<string>,
+    actionDown: boolean,
+    justPressed: boolean
+  ) => void;
+  steering?: (s: GameState, p: Player) => boolean;
+  target?: (s: GameState, p: Player) => { tx: number; ty: number };
+  cooldown?: number;
+};
+
+// Sounds the browser's sound bank can play for an element
+export type ElementSound =
+  | "jump"
+  | "fireBreak"
+  | "waterSplash"
+  | "waterFreeze"
+  | "earthThud"
+  | "windDash"
+  | "windGust";
+
+export type ElementDef = {
+  id: number;
+  name: string;
+  color: string;
+  // Lighter shade for the inside of its gate
+  accent: string;
+  // Level characters for its spawn, exit gate and personal checkpoint, and
+  // the colored hole it swims in (and everyone else dies in). Checkpoints
+  // get symbols so the digits stay free for spawns.
+  spawn: string;
+  gate: string;
+  checkpoint: string;
+  hole: string;
+  // What the action does, short enough for the keybind overlay
+  ability: string;
+  action: Ability;
+  // The tile its action gets rid of and what it leaves there, so bots can
+  // plan through it: reached in front of the player (or above and below),
+  // or anywhere around it
+  clears: { tile: string; into: string; reach: "ahead" | "around" } | null;
+  // Its action can put a block underfoot in mid-air
+  builds: boolean;
+  // Double-tapping a direction key dashes that way
+  dash: boolean;
+  maxAirJumps: number;
+  step: StepEffect;
+  // The sound each of its events plays: its player's own (jumping), and the
+  // ones only its action causes. Events left out play nothing.
+  sounds: Partial<Record<GameEvent["type"], ElementSound>>;
+};
+
+export const ELEMENTS: ElementDef[] = [
+  {
+    id: 1,
+    name: "Fire",
+    color: "#ef4444",
+    accent: "#fecaca",
+    spawn: "1",
+    gate: "A",
+    checkpoint: "!",
+    hole: "f",
+    ability: "Break barriers",
+    action: { press: doFireAction },
+    clears: { tile: "b", into: ".", reach: "ahead" },
+    builds: false,
+    dash: false,
+    maxAirJumps: 0,
+    step: {
+      count: 20,
+      spread: 70,
+      kick: 20,
+      rise: [40, 40],
+      life: [0.28, 0.16],
+      size: [4, 4],
+      colorStart: "#fb923c",
+      colorEnd: "rgba(239,68,68,0.1)",
+      gravity: 500,
+      damping: 0.9,
+      shape: "square",
+      additive: true,
+    },
+    sounds: { jump: "jump", fireBreak: "fireBreak", crateBurn: "fireBreak" },
+  },
+  {
+    id: 2,
+    name: "Water",
+    color: "#14b8a6",
+    accent: "#99f6e4",
+    spawn: "2",
+    gate: "B",
+    checkpoint: "@",
+    hole: "a",
+    ability: "Fill / freeze",
+    action: { press: doWaterAction },
+    clears: { tile: "O", into: "W", reach: "around" },
+    builds: false,
+    dash: false,
+    maxAirJumps: 0,
+    step: {
+      count: 25,
+      spread: 60,
+      kick: 10,
+      rise: [30, 30],
+      life: [0.32, 0.18],
+      size: [4, 4],
+      colorStart: "rgba(14,165,233,0.9)",
+      colorEnd: "rgba(125,211,252,0.05)",
+      gravity: 800,
+      damping: 0.9,
+      shape: "circle",
+      additive: false,
+    },
+    sounds: {
+      jump: "jump",
+      waterFill: "waterSplash",
+      waterFreeze: "waterFreeze",
+    },
+  },
+  {
+    id: 3,
+    name: "Earth",
+    color: "#92400e",
+    accent: "#f59e0b",
+    spawn: "3",
+    gate: "C",
+    checkpoint: "$",
+    hole: "e",
+    ability: "Build / dig",
+    // Earth acts when its action is let go
+    action: {
+      update: updateEarth,
+      steering: earthAiming,
+      target: earthAimTarget,
+    },
+    clears: null,
+    builds: true,
+    dash: false,
+    maxAirJumps: 0,
+    step: {
+      count: 25,
+      spread: 80,
+      kick: 15,
+      rise: [20, 30],
+      life: [0.35, 0.2],
+      size: [4, 6],
+      colorStart: "#92400e",
+      colorEnd: "rgba(245,158,11,0.05)",
+      gravity: 900,
+      damping: 0.88,
+      shape: "square",
+      additive: false,
+    },
+    sounds: { jump: "jump", earthPlace: "earthThud", earthDig: "earthThud" },
+  },
+  {
+    id: 4,
+    name: "Wind",
+    color: "#38bdf8",
+    accent: "#bae6fd",
+    spawn: "4",
+    gate: "D",
+    checkpoint: "%",
+    hole: "n",
+    ability: "Gust & dash",
+    action: { press: doWindAction, cooldown: GUST_COOLDOWN },
+    clears: null,
+    builds: false,
+    dash: true,
+    maxAirJumps: 0,
+    step: {
+      count: 20,
+      spread: 60,
+      kick: 10,
+      rise: [10, 20],
+      life: [0.25, 0.15],
+      size: [4, 4],
+      colorStart: "rgba(56,189,248,0.6)",
+      colorEnd: "rgba(56,189,248,0.0)",
+      gravity: 0,
+      damping: 0.92,
+      shape: "circle",
+      additive: true,
+    },
+    // Wind's whoosh comes from its dash instead of a jump sound
+    sounds: { windDash: "windDash", windGust: "windGust" },
+  },
+];
+
+export const ELEMENT_IDS = ELEMENTS.map((e) => e.id);
+
+export function elementById(id: number): ElementDef | undefined {
+  return ELEMENTS.find((e) => e.id === id);
+}
+
+// The element a spawn, gate, checkpoint or hole character belongs to
+export function elementByTile(
+  kind: "spawn" | "gate" | "checkpoint" | "hole",
+  ch: string
+): ElementDef | undefined {
+  return ELEMENTS.find((e) => e[kind] === ch);
+}
+
+// The element sound an event plays, if any: from its player's element, or
+// from the element whose action caused it
+export function elementSound(ev: GameEvent): ElementSound | undefined {
+  const owner =
+    "playerId" in ev
+      ? elementById(ev.playerId)
+      : ELEMENTS.find((e) => e.sounds[ev.type]);
+  return owner?.sounds[ev.type];
+}
@@ -0,0 +1,120 @@
+import { lerp } from "./math";
+import { carryBody, touchesTile } from "./physics";
+import type { Body, Entity, EntitySpec, GameState } from "./types";
+
+// Moving platforms and elevators. They live beside the tile grid: the level
+// file lists them, stepGame moves them before the players, and
+// moveAndCollide treats their current rectangles as solid.
+
+export function createEntities(
+  specs: EntitySpec[] = [],
+  tileSize: number
+): Entity[] {
+  return specs.map((spec, id) => {
+    const from = { x: spec.from.tx * tileSize, y: spec.from.ty * tileSize };
+    const to = { x: spec.to.tx * tileSize, y: spec.to.ty * tileSize };
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    return {
+      id,
+      type: spec.type,
+      from,
+      to,
+      w: spec.width * tileSize,
+      h: tileSize / 2,
+      pos: { ...from },
+      delta: { x: 0, y: 0 },
+      progress: 0,
+      rate: length > 0 ? (spec.speed * tileSize) / length : 0,
+      dir: 1,
+      ...(spec.plate ? { plate: { ...spec.plate } } : {}),
+      ...(spec.channel ? { channel: spec.channel } : {}),
+    };
+  });
+}
+
+export function cloneEntity(e: Entity): Entity {
+  return {
+    ...e,
+    pos: { ...e.pos },
+    delta: { ...e.delta },
+    ...(e.plate ? { plate: { ...e.plate } } : {}),
+  };
+}
+
+function plateHeld(s: GameState, plate: { tx: number; ty: number }) {
+  return [...s.players, ...s.crates].some((b) =>
+    touchesTile(s.level, b, plate.tx, plate.ty)
+  );
+}
+
+// Shift a body and, in turn, everything standing on it
+function carryStack(s: GameState, b: Body, id: number, dx: number, dy: number) {
+  const before = { ...b.pos };
+  carryBody(s.level, b, dx, dy);
+  carryRiders(s, id, b.pos.x - before.x, b.pos.y - before.y);
+}
+
+// Take the bodies riding solid `id` along by (dx, dy). Players are stood on
+// under their negated id, so they never clash with entity or crate ids.
+export function carryRiders(s: GameState, id: number, dx: number, dy: number) {
+  if (dx === 0 && dy === 0) return;
+  for (const p of s.players) {
+    if (p.riding === id) carryStack(s, p, -p.id, dx, dy);
+  }
+  for (const c of s.crates) {
+    if (c.riding === id) carryStack(s, c, c.id, dx, dy);
+  }
+}
+
+function overlapsEntity(e: Pick<Entity, "pos" | "w" | "h">, p: Body) {
+  return (
+    p.pos.x + p.w / 2 > e.pos.x &&
+    p.pos.x - p.w / 2 < e.pos.x + e.w &&
+    p.pos.y + p.h / 2 > e.pos.y &&
+    p.pos.y - p.h / 2 < e.pos.y + e.h
+  );
+}
+
+// Advance every entity along its path, then take riders along and push
+// any player or crate the entity has just moved into
+export function moveEntities(s: GameState, dt: number) {
+  for (const e of s.entities) {
+    const before = { ...e.pos };
+    if (e.type === "platform") {
+      e.progress += e.dir * e.rate * dt;
+      if (e.progress >= 1) {
+        e.progress = 1;
+        e.dir = -1;
+      } else if (e.progress <= 0) {
+        e.progress = 0;
+        e.dir = 1;
+      }
+    } else {
+      const powered =
+        (e.plate && plateHeld(s, e.plate)) ||
+        (e.channel && s.channels[e.channel]);
+      const target = powered ? 1 : 0;
+      const step = e.rate * dt;
+      e.progress =
+        target > e.progress
+          ? Math.min(target, e.progress + step)
+          : Math.max(target, e.progress - step);
+    }
+    e.pos = {
+      x: lerp(e.from.x, e.to.x, e.progress),
+      y: lerp(e.from.y, e.to.y, e.progress),
+    };
+    e.delta = { x: e.pos.x - before.x, y: e.pos.y - before.y };
+    if (e.delta.x === 0 && e.delta.y === 0) continue;
+
+    const moved = (b: Body) =>
+      b.riding === e.id ||
+      (overlapsEntity(e, b) && !overlapsEntity({ ...e, pos: before }, b));
+    for (const p of s.players) {
+      if (moved(p)) carryStack(s, p, -p.id, e.delta.x, e.delta.y);
+    }
+    for (const c of s.crates) {
+      if (moved(c)) carryStack(s, c, c.id, e.delta.x, e.delta.y);
+    }
+  }
+}
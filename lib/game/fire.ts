@@ -0,0 +1,36 @@
+import { burnCrates } from "./crates";
+import { worldToTile } from "./math";
+import { setTile, tileAt } from "./tiles";
+import type { GameState, Player } from "./types";
+
+// Fire's action: burns away the barriers, Earth blocks and ice in front of
+// and around Fire (ice melts back into water), and the crates there.
+
+export function doFireAction(s: GameState, p: Player) {
+  const level = s.level;
+  const aheadX = p.pos.x + p.facing * (p.w / 2 + 4);
+  const aheadY = p.pos.y;
+  const { tx: tx1, ty: ty1 } = worldToTile(aheadX, aheadY, level.tileSize);
+  const { tx: tx2, ty: ty2 } = worldToTile(p.pos.x, p.pos.y, level.tileSize);
+  const candidates: Array<[number, number]> = [
+    [tx1, ty1],
+    [tx2, ty2],
+    [tx2, ty2 + 1],
+    [tx2, ty2 - 1],
+  ];
+  const broken: Array<{ tx: number; ty: number; ch: string }> = [];
+  for (const [tx, ty] of candidates) {
+    const ch = tileAt(level, tx, ty);
+    if (ch === "b" || ch === "X" || ch === "I") {
+      // Ice melts back into water
+      setTile(level, tx, ty, ch === "I" ? "W" : ".");
+      broken.push({ tx, ty, ch });
+    }
+  }
+  if (broken.length) s.events.push({ type: "fireBreak", tiles: broken });
+  burnCrates(s, candidates);
+  s.tempPlatforms = s.tempPlatforms.filter(
+    (tp) => tileAt(level, tp.tx, tp.ty) === "X"
+  );
+  s.frozen = s.frozen.filter((ice) => tileAt(level, ice.tx, ice.ty) === "I");
+}
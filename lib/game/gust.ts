@@ -0,0 +1,98 @@
+import { GUST_COOLDOWN } from "./constants";
+import { blowCrate } from "./crates";
+import { setTile, solidAt, tileAt } from "./tiles";
+import type { GameState, Level, Player, Vec2 } from "./types";
+
+// Wind's gust: a cone of air in front of Wind that shoves the other players
+// and crates, spins fans and blows out fire holes. Walls stop it.
+
+// How far the gust reaches, in tiles, and how wide the cone opens
+export const GUST_RANGE = 5;
+const GUST_HALF_ANGLE = Math.PI / 5;
+// Speed given to the players caught in it, plus a little lift so they
+// leave the ground instead of grinding to a halt
+const GUST_PUSH = 450;
+const GUST_LIFT = 200;
+
+// Whether the point (x, y) is inside a gust blowing from `from` along the
+// unit vector (dx, dy), with no wall in between
+export function inGust(
+  level: Level,
+  from: Vec2,
+  dx: number,
+  dy: number,
+  x: number,
+  y: number
+) {
+  const ts = level.tileSize;
+  const rx = x - from.x;
+  const ry = y - from.y;
+  const along = rx * dx + ry * dy;
+  const across = Math.abs(rx * dy - ry * dx);
+  if (along <= 0 || along > GUST_RANGE * ts) return false;
+  if (across > along * Math.tan(GUST_HALF_ANGLE) + ts / 2) return false;
+  const steps = Math.ceil(Math.hypot(rx, ry) / (ts / 4));
+  for (let i = 1; i < steps; i++) {
+    if (solidAt(level, from.x + (rx * i) / steps, from.y + (ry * i) / steps)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function windGust(s: GameState, p: Player, dx: number, dy: number) {
+  const { level } = s;
+  const ts = level.tileSize;
+  const reaches = (x: number, y: number) => inGust(level, p.pos, dx, dy, x, y);
+
+  for (const o of s.players) {
+    if (o === p || !reaches(o.pos.x, o.pos.y)) continue;
+    o.vel.x = dx * GUST_PUSH;
+    o.vel.y = Math.min(o.vel.y, dy * GUST_PUSH - GUST_LIFT);
+  }
+  for (const c of s.crates) {
+    if (reaches(c.pos.x, c.pos.y)) blowCrate(c, dx, dy);
+  }
+  // Fans only notice the gust on the next wiring update
+  for (const sw of s.switches) {
+    if (tileAt(level, sw.tx, sw.ty) !== "F") continue;
+    if (reaches((sw.tx + 0.5) * ts, (sw.ty + 0.5) * ts)) sw.blown = true;
+  }
+  const doused: Array<{ tx: number; ty: number }> = [];
+  const x0 = Math.floor(p.pos.x / ts) - GUST_RANGE;
+  const y0 = Math.floor(p.pos.y / ts) - GUST_RANGE;
+  for (let ty = y0; ty <= y0 + GUST_RANGE * 2; ty++) {
+    for (let tx = x0; tx <= x0 + GUST_RANGE * 2; tx++) {
+      if (tileAt(level, tx, ty) !== "f") continue;
+      if (!reaches((tx + 0.5) * ts, (ty + 0.5) * ts)) continue;
+      setTile(level, tx, ty, ".");
+      doused.push({ tx, ty });
+    }
+  }
+  s.events.push({
+    type: "windGust",
+    playerId: p.id,
+    x: p.pos.x,
+    y: p.pos.y,
+    dx,
+    dy,
+    doused,
+  });
+}
+
+// Wind's action: gusts toward the held direction keys, or ahead when none
+// are down
+export function doWindAction(
+  s: GameState,
+  p: Player,
+  pressed: ReadonlySet<string>
+) {
+  if (s.time < p.abilityCooldownUntil) return;
+  const { left, right, jump } = p.controls;
+  let dx = (pressed.has(right) ? 1 : 0) - (pressed.has(left) ? 1 : 0);
+  const dy = pressed.has(jump) ? -1 : 0;
+  if (dx === 0 && dy === 0) dx = p.facing;
+  const len = Math.hypot(dx, dy);
+  windGust(s, p, dx / len, dy / len);
+  p.abilityCooldownUntil = s.time + GUST_COOLDOWN * 1000;
+}
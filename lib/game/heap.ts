@@ -0,0 +1,44 @@
+// Binary min-heap on a number read off each item. Shared by the solver's
+// search and the bots' path planner.
+export function createHeap<T>(priority: (item: T) => number) {
+  const items: T[] = [];
+  const less = (a: number, b: number) =>
+    priority(items[a]) < priority(items[b]);
+  const swap = (a: number, b: number) => {
+    [items[a], items[b]] = [items[b], items[a]];
+  };
+
+  function push(item: T) {
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!less(i, parent)) break;
+      swap(i, parent);
+      i = parent;
+    }
+  }
+
+  // Removes and returns the lowest item, or undefined when empty
+  function pop(): T | undefined {
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < items.length && less(l, m)) m = l;
+        if (r < items.length && less(r, m)) m = r;
+        if (m === i) break;
+        swap(m, i);
+        i = m;
+      }
+    }
+    return top;
+  }
+
+  return { push, pop };
+}
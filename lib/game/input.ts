@@ -0,0 +1,60 @@
+import type { InputSnapshot, KeyBinding } from "./types";
+
+export const EMPTY_INPUT: InputSnapshot = {
+  pressed: new Set(),
+  doubleTap: new Set(),
+};
+
+// Union of several input sources (keyboard, gamepads, ...) for one step
+export function mergeInputs(...inputs: InputSnapshot[]): InputSnapshot {
+  const pressed = new Set<string>();
+  const doubleTap = new Set<string>();
+  for (const input of inputs) {
+    input.pressed.forEach((k) => pressed.add(k));
+    input.doubleTap.forEach((k) => doubleTap.add(k));
+  }
+  return { pressed, doubleTap };
+}
+
+// Keep only the given keys, e.g. the bindings of the slots this browser owns
+export function filterInput(
+  input: InputSnapshot,
+  keys: ReadonlySet<string>
+): InputSnapshot {
+  const pressed = new Set<string>();
+  const doubleTap = new Set<string>();
+  input.pressed.forEach((k) => {
+    if (keys.has(k)) pressed.add(k);
+  });
+  input.doubleTap.forEach((k) => {
+    if (keys.has(k)) doubleTap.add(k);
+  });
+  return { pressed, doubleTap };
+}
+
+// Translate one player's keys from one binding to another, dropping
+// everything else
+export function remapInput(
+  input: InputSnapshot,
+  from: KeyBinding,
+  to: KeyBinding
+): InputSnapshot {
+  const pressed = new Set<string>();
+  const doubleTap = new Set<string>();
+  for (const field of ["left", "right", "jump", "action"] as const) {
+    if (!from[field] || !to[field]) continue;
+    if (input.pressed.has(from[field])) pressed.add(to[field]);
+    if (input.doubleTap.has(from[field])) doubleTap.add(to[field]);
+  }
+  return { pressed, doubleTap };
+}
+
+export function bindingKeys(bindings: KeyBinding[]) {
+  const keys = new Set<string>();
+  for (const kb of bindings) {
+    for (const key of [kb.left, kb.right, kb.jump, kb.action]) {
+      if (key) keys.add(key);
+    }
+  }
+  return keys;
+}
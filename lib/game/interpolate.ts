@@ -0,0 +1,50 @@
+import { TILE } from "./constants";
+import { lerp } from "./math";
+import type { Entity, Vec2 } from "./types";
+
+// Anything that moved further than this in one tick was teleported (respawn,
+// level reset) and is drawn at its new position rather than smeared across.
+const SNAP_DISTANCE = TILE * 2;
+
+// Blend player or crate positions between the previous and current
+// simulation ticks. alpha is the fraction of a tick that has elapsed since
+// `cur` was produced.
+export function interpolateBodies<T extends { id: number; pos: Vec2 }>(
+  prev: T[],
+  cur: T[],
+  alpha: number
+): T[] {
+  return cur.map((p) => {
+    const before = prev.find((q) => q.id === p.id);
+    if (!before) return p;
+    const dx = p.pos.x - before.pos.x;
+    const dy = p.pos.y - before.pos.y;
+    if (Math.abs(dx) > SNAP_DISTANCE || Math.abs(dy) > SNAP_DISTANCE) return p;
+    return {
+      ...p,
+      pos: {
+        x: lerp(before.pos.x, p.pos.x, alpha),
+        y: lerp(before.pos.y, p.pos.y, alpha),
+      },
+    };
+  });
+}
+
+// Entities move along fixed paths, so they only snap on a level reset
+export function interpolateEntities(
+  prev: Entity[],
+  cur: Entity[],
+  alpha: number
+): Entity[] {
+  return cur.map((e) => {
+    const before = prev.find((q) => q.id === e.id);
+    if (!before) return e;
+    return {
+      ...e,
+      pos: {
+        x: lerp(before.pos.x, e.pos.x, alpha),
+        y: lerp(before.pos.y, e.pos.y, alpha),
+      },
+    };
+  });
+}
@@ -0,0 +1,218 @@
+import { ELEMENT_IDS, elementById } from "./elements";
+import type {
+  EntitySpec,
+  LevelFile,
+  LevelOptions,
+  SwitchMode,
+  Wiring,
+} from "./types";
+
+// Versioned JSON level files. Bump LEVEL_FORMAT_VERSION when the shape
+// changes and teach parseLevelFile to upgrade the older versions.
+export const LEVEL_FORMAT_VERSION = 2;
+
+// Version 1 wrote the personal checkpoints as the digits after the spawns
+const V1_CHECKPOINTS: Record<string, string> = {
+  "5": "!",
+  "6": "@",
+  "7": "$",
+  "8": "%",
+};
+
+function upgradeV1Tiles(rows: string[]): string[] {
+  return rows.map((row) => row.replace(/[5-8]/g, (ch) => V1_CHECKPOINTS[ch]));
+}
+
+export const DEFAULT_LEVEL_OPTIONS: LevelOptions = {
+  platesToOpenDoors: 2,
+  players: [...ELEMENT_IDS],
+  requireAllPlates: true,
+  playerStacking: true,
+};
+
+// Files from before player stacking existed leave it off, so they (and
+// replays that embed them) play the same as they did
+const PRE_STACKING_OPTIONS: Partial<LevelOptions> = { playerStacking: false };
+
+// Wrap bare ASCII rows (the old LEVEL_MAPS entries, or an early editor
+// export) in a level file with default options
+export function migrateAsciiLevel(
+  rows: string[],
+  meta: Partial<Omit<LevelFile, "version" | "tiles">> = {}
+): LevelFile {
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    name: meta.name ?? "Untitled",
+    description: meta.description ?? "",
+    author: meta.author ?? "",
+    ...(meta.hints ? { hints: meta.hints } : {}),
+    ...(meta.parTime !== undefined ? { parTime: meta.parTime } : {}),
+    tiles: rows.slice(),
+    options: { ...DEFAULT_LEVEL_OPTIONS, ...meta.options },
+    ...(meta.entities ? { entities: meta.entities } : {}),
+    ...(meta.wiring ? { wiring: meta.wiring } : {}),
+  };
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((row) => typeof row === "string");
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object";
+}
+
+// Integer tile coordinates { tx, ty }
+function isTilePos(
+  v: unknown
+): v is Record<string, unknown> & { tx: number; ty: number } {
+  return isRecord(v) && Number.isInteger(v.tx) && Number.isInteger(v.ty);
+}
+
+function parseEntity(v: unknown): EntitySpec {
+  if (
+    !isRecord(v) ||
+    (v.type !== "platform" && v.type !== "elevator") ||
+    !isTilePos(v.from) ||
+    !isTilePos(v.to) ||
+    typeof v.width !== "number" ||
+    !Number.isInteger(v.width) ||
+    v.width < 1 ||
+    typeof v.speed !== "number" ||
+    v.speed <= 0 ||
+    (v.plate !== undefined && !isTilePos(v.plate)) ||
+    (v.channel !== undefined && typeof v.channel !== "string")
+  ) {
+    throw new Error("Level entities are malformed");
+  }
+  return {
+    type: v.type,
+    from: { tx: v.from.tx, ty: v.from.ty },
+    to: { tx: v.to.tx, ty: v.to.ty },
+    width: v.width,
+    speed: v.speed,
+    ...(v.plate ? { plate: { tx: v.plate.tx, ty: v.plate.ty } } : {}),
+    ...(v.channel ? { channel: v.channel } : {}),
+  };
+}
+
+const SWITCH_MODES: SwitchMode[] = ["hold", "toggle", "latch", "timed"];
+
+type LogicGate = NonNullable<Wiring["logic"]>[number];
+
+function isSwitchMode(v: unknown): v is SwitchMode {
+  return SWITCH_MODES.some((mode) => mode === v);
+}
+
+function parseWiring(v: unknown): Wiring {
+  const malformed = () => new Error("Level wiring is malformed");
+  if (!isRecord(v) || !Array.isArray(v.switches) || !Array.isArray(v.doors)) {
+    throw malformed();
+  }
+  const switches = v.switches.map((sw: unknown) => {
+    if (
+      !isTilePos(sw) ||
+      typeof sw.channel !== "string" ||
+      (sw.mode !== undefined && !isSwitchMode(sw.mode)) ||
+      (sw.duration !== undefined &&
+        (typeof sw.duration !== "number" || sw.duration <= 0))
+    ) {
+      throw malformed();
+    }
+    return {
+      tx: sw.tx,
+      ty: sw.ty,
+      channel: sw.channel,
+      ...(sw.mode ? { mode: sw.mode } : {}),
+      ...(sw.duration ? { duration: sw.duration } : {}),
+    };
+  });
+  const doors = v.doors.map((door: unknown) => {
+    if (!isTilePos(door) || typeof door.channel !== "string") {
+      throw malformed();
+    }
+    return { tx: door.tx, ty: door.ty, channel: door.channel };
+  });
+  if (v.logic !== undefined && !Array.isArray(v.logic)) throw malformed();
+  const logic = (v.logic ?? []).map((entry: unknown): LogicGate => {
+    if (
+      !isRecord(entry) ||
+      typeof entry.channel !== "string" ||
+      (entry.op !== "and" && entry.op !== "or") ||
+      !isStringArray(entry.inputs)
+    ) {
+      throw malformed();
+    }
+    return { channel: entry.channel, op: entry.op, inputs: entry.inputs };
+  });
+  return { switches, ...(logic.length ? { logic } : {}), doors };
+}
+
+// A non-empty list of known player ids, each at most once
+function isPlayerList(v: unknown): v is number[] {
+  return (
+    Array.isArray(v) &&
+    v.length > 0 &&
+    v.every((id) => typeof id === "number" && !!elementById(id)) &&
+    new Set(v).size === v.length
+  );
+}
+
+// Validate the shape of parsed JSON and fill in defaults. Accepts the
+// current format, version 1 (upgraded) and bare string[] maps; throws on
+// anything else.
+export function parseLevelFile(data: unknown): LevelFile {
+  if (isStringArray(data)) {
+    return migrateAsciiLevel(data, {
+      options: { ...DEFAULT_LEVEL_OPTIONS, ...PRE_STACKING_OPTIONS },
+    });
+  }
+  if (!data || typeof data !== "object") {
+    throw new Error("Level file must be a JSON object");
+  }
+  const d = data as Record<string, unknown>;
+  if (d.version !== 1 && d.version !== LEVEL_FORMAT_VERSION) {
+    throw new Error(`Unsupported level version: ${d.version}`);
+  }
+  if (!isStringArray(d.tiles) || d.tiles.length === 0) {
+    throw new Error("Level file needs a non-empty tiles array of strings");
+  }
+  const tiles = d.version === 1 ? upgradeV1Tiles(d.tiles) : d.tiles.slice();
+  if (
+    d.options !== undefined &&
+    (!d.options || typeof d.options !== "object")
+  ) {
+    throw new Error("Level options are malformed");
+  }
+  const options: LevelOptions = {
+    ...DEFAULT_LEVEL_OPTIONS,
+    ...(d.version === 1 ? PRE_STACKING_OPTIONS : {}),
+    ...(d.options as Partial<LevelOptions> | undefined),
+  };
+  if (
+    typeof options.platesToOpenDoors !== "number" ||
+    typeof options.requireAllPlates !== "boolean" ||
+    typeof options.playerStacking !== "boolean"
+  ) {
+    throw new Error("Level options are malformed");
+  }
+  if (!isPlayerList(options.players)) {
+    throw new Error(
+      "Level options.players must list at least one known player, each once"
+    );
+  }
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    name: typeof d.name === "string" ? d.name : "Untitled",
+    description: typeof d.description === "string" ? d.description : "",
+    author: typeof d.author === "string" ? d.author : "",
+    ...(isStringArray(d.hints) ? { hints: d.hints } : {}),
+    ...(typeof d.parTime === "number" ? { parTime: d.parTime } : {}),
+    tiles,
+    options,
+    ...(Array.isArray(d.entities)
+      ? { entities: d.entities.map(parseEntity) }
+      : {}),
+    ...(d.wiring !== undefined ? { wiring: parseWiring(d.wiring) } : {}),
+  };
+}
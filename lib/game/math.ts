@@ -0,0 +1,20 @@
+export function clamp(v: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, v));
+}
+export function rectIntersect(
+  a: { x: number; y: number; w: number; h: number },
+  b: { x: number; y: number; w: number; h: number }
+) {
+  return !(
+    a.x + a.w <= b.x ||
+    a.x >= b.x + b.w ||
+    a.y + a.h <= b.y ||
+    a.y >= b.y + b.h
+  );
+}
+export function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
+export function worldToTile(x: number, y: number, tileSize: number) {
+  return { tx: Math.floor(x / tileSize), ty: Math.floor(y / tileSize) };
+}
@@ -0,0 +1,176 @@
+import { SIM_DT } from "./constants";
+import { EMPTY_INPUT, mergeInputs } from "./input";
+import { stepGame } from "./simulation";
+import type { GameState, InputSnapshot, KeyBinding, PlateState } from "./types";
+
+// Online play: the host browser runs the only authoritative simulation.
+// Clients send the inputs of their slot tick by tick and receive snapshots;
+// between snapshots they predict their own player locally. Everything here
+// is transport-agnostic; hooks/use-net-session.ts carries it over the
+// WebSocket relay in server/relay.mjs.
+
+export const MAX_REMOTE_PLAYERS = 3;
+// Host ticks between snapshots (120 Hz / 6 = 20 snapshots per second)
+export const SNAPSHOT_INTERVAL = 6;
+// Queued remote ticks beyond this are dropped so a client that stalled
+// does not stay behind forever
+const MAX_INPUT_BACKLOG = 12;
+
+// peerId of the host's own keyboard/gamepads/touch
+export const HOST_PEER = 0;
+
+// playerId -> peerId controlling it (null = nobody)
+export type SlotAssignments = Record<number, number | null>;
+
+export type NetInput = { seq: number; pressed: string[]; doubleTap: string[] };
+
+// GameState with the plates Map flattened for JSON
+export type WireState = Omit<GameState, "plates" | "events"> & {
+  plates: Array<[string, PlateState]>;
+};
+
+export type HostMessage =
+  | {
+      type: "welcome";
+      bindings: Record<number, KeyBinding>;
+    }
+  | {
+      type: "slots";
+      slots: SlotAssignments;
+      names: Record<number, string>;
+    }
+  | {
+      type: "snapshot";
+      state: WireState;
+      // Last input seq of this client the state includes
+      ack: number;
+      // Keys held by everyone on the host's last tick, to extrapolate
+      // the other players between snapshots
+      pressed: string[];
+      paused: boolean;
+    };
+
+export type ClientMessage = { type: "input"; inputs: NetInput[] };
+
+export function encodeState(s: GameState): WireState {
+  const { events: _events, ...rest } = s;
+  return { ...rest, plates: Array.from(s.plates.entries()) };
+}
+
+export function decodeState(w: WireState): GameState {
+  return { ...w, plates: new Map(w.plates), events: [] };
+}
+
+// Give a new client the first slot after Fire that the host still plays
+// itself; returns null when every slot is taken
+export function firstFreeSlot(slots: SlotAssignments) {
+  for (const id of [2, 3, 4, 1]) {
+    if (slots[id] === HOST_PEER) return id;
+  }
+  return null;
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string");
+}
+
+// Host side: the inputs in a client's "input" message, or null when the
+// message is not one. Anything malformed is dropped here rather than
+// reaching the game loop.
+export function parseClientInputs(data: unknown): NetInput[] | null {
+  if (!data || typeof data !== "object") return null;
+  const msg = data as { type?: unknown; inputs?: unknown };
+  if (msg.type !== "input" || !Array.isArray(msg.inputs)) return null;
+  const inputs: NetInput[] = [];
+  for (const v of msg.inputs as unknown[]) {
+    if (!v || typeof v !== "object") continue;
+    const { seq, pressed, doubleTap } = v as Record<string, unknown>;
+    if (typeof seq !== "number" || !Number.isFinite(seq)) continue;
+    if (!isStringArray(pressed) || !isStringArray(doubleTap)) continue;
+    inputs.push({ seq, pressed, doubleTap });
+  }
+  return inputs;
+}
+
+function toSnapshot(input: NetInput): InputSnapshot {
+  return {
+    pressed: new Set(input.pressed),
+    doubleTap: new Set(input.doubleTap),
+  };
+}
+
+// Host side: inputs of one client, consumed one per host tick. When the
+// queue runs dry the last held keys repeat, so jitter reads as a held key
+// rather than a release.
+export function createInputQueue() {
+  const queue: NetInput[] = [];
+  let held: NetInput | null = null;
+  let lastSeq = 0;
+  return {
+    push(inputs: NetInput[]) {
+      for (const input of inputs) {
+        if (input.seq <= lastSeq) continue;
+        lastSeq = input.seq;
+        queue.push(input);
+      }
+      // Drop the oldest ticks but keep their double taps
+      while (queue.length > MAX_INPUT_BACKLOG) {
+        const dropped = queue.shift()!;
+        queue[0] = {
+          ...queue[0],
+          doubleTap: [...dropped.doubleTap, ...queue[0].doubleTap],
+        };
+      }
+    },
+    next(): InputSnapshot {
+      const input = queue.shift();
+      if (input) {
+        held = input;
+        return toSnapshot(input);
+      }
+      return held
+        ? { pressed: new Set(held.pressed), doubleTap: new Set() }
+        : EMPTY_INPUT;
+    },
+    // Seq of the newest input applied so far
+    get ack() {
+      return held?.seq ?? 0;
+    },
+  };
+}
+
+// Client side: the local player's unacknowledged inputs. On each snapshot
+// the client rewinds to the host's state and replays what the host has not
+// seen yet, so its own movement never waits for a round trip.
+export function createPredictor() {
+  let pending: NetInput[] = [];
+  let seq = 0;
+  return {
+    // Record this tick's local input and return it for sending
+    track(input: InputSnapshot): NetInput {
+      const net: NetInput = {
+        seq: ++seq,
+        pressed: Array.from(input.pressed),
+        doubleTap: Array.from(input.doubleTap),
+      };
+      pending.push(net);
+      return net;
+    },
+    reconcile(
+      snapshot: GameState,
+      ack: number,
+      othersPressed: ReadonlySet<string>
+    ) {
+      pending = pending.filter((input) => input.seq > ack);
+      const others = { pressed: othersPressed, doubleTap: new Set<string>() };
+      let s = snapshot;
+      for (const input of pending) {
+        s = stepGame(s, mergeInputs(others, toSnapshot(input)), SIM_DT);
+      }
+      return s;
+    },
+    reset() {
+      pending = [];
+    },
+  };
+}
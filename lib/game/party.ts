@@ -0,0 +1,82 @@
+import { mergeInputs, remapInput } from "./input";
+import type { InputSnapshot, KeyBinding } from "./types";
+
+// Fewer humans than characters: seat h plays with the keys of player h and
+// owns every size-th character of the level, switching between them with a
+// swap key. Characters nobody is steering get no input and stand idle.
+// The mapping happens before the simulation, which still sees each
+// character's own keys, so recordings and online play need no changes.
+// Characters the computer plays are left out, which can leave a seat empty;
+// the rest keep the seats they would have had anyway.
+
+export const MAX_PARTY_SIZE = 4;
+
+export type Party = {
+  // Character ids per seat; seat 1 is members[0]
+  members: number[][];
+  // Index into members[seat] of the character each seat is steering
+  active: number[];
+};
+
+export function createParty(
+  size: number,
+  playerIds: number[],
+  botIds: number[] = []
+): Party {
+  const seats = Math.max(1, Math.min(size, MAX_PARTY_SIZE, playerIds.length));
+  const members: number[][] = Array.from({ length: seats }, () => []);
+  playerIds.forEach((id, i) => {
+    if (!botIds.includes(id)) members[i % seats].push(id);
+  });
+  return { members, active: members.map(() => 0) };
+}
+
+// Character the seat (1-based) is steering
+export function activeCharacter(party: Party, seat: number) {
+  const chars = party.members[seat - 1];
+  return chars ? chars[party.active[seat - 1]] : undefined;
+}
+
+export function activeCharacters(party: Party) {
+  return party.members.flatMap((chars, i) =>
+    chars.length ? [chars[party.active[i]]] : []
+  );
+}
+
+// Seat (1-based) that owns a character, or undefined
+export function seatOf(party: Party, playerId: number) {
+  const i = party.members.findIndex((chars) => chars.includes(playerId));
+  return i === -1 ? undefined : i + 1;
+}
+
+// Advance every seat whose swap key went down since the previous tick
+export function applySwaps(
+  party: Party,
+  pressed: ReadonlySet<string>,
+  prevPressed: ReadonlySet<string>,
+  swapKeys: Record<number, string>
+): Party {
+  let changed = false;
+  const active = party.active.map((index, i) => {
+    const key = swapKeys[i + 1];
+    if (party.members[i].length < 2) return index;
+    if (!key || !pressed.has(key) || prevPressed.has(key)) return index;
+    changed = true;
+    return (index + 1) % party.members[i].length;
+  });
+  return changed ? { ...party, active } : party;
+}
+
+// Route each seat's keys to the character it is steering
+export function partyInput(
+  party: Party,
+  input: InputSnapshot,
+  bindings: Record<number, KeyBinding>
+): InputSnapshot {
+  const inputs: InputSnapshot[] = [];
+  party.members.forEach((chars, i) => {
+    const target = bindings[chars[party.active[i]]];
+    if (target) inputs.push(remapInput(input, bindings[i + 1], target));
+  });
+  return mergeInputs(...inputs);
+}
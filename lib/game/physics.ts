@@ -0,0 +1,157 @@
+import { DRAG_REFERENCE_HZ } from "./constants";
+import { worldToTile } from "./math";
+import { solidAt, tileCharAt } from "./tiles";
+import type { Body, Level, Solid } from "./types";
+
+// Collision of a moving body (player or crate) with the tile grid and with
+// the solids beside it, i.e. entities, crates and other players. Bodies are
+// centered on pos; solids are anchored at their top-left corner.
+
+// Scale a per-frame damping factor to an arbitrary step length
+export function dragFactor(perFrame: number, dt: number) {
+  return Math.pow(perFrame, dt * DRAG_REFERENCE_HZ);
+}
+
+// Whether a body weighs on a tile such as a plate: the tile holds its
+// center or lies right under its feet
+export function touchesTile(level: Level, b: Body, tx: number, ty: number) {
+  const ts = level.tileSize;
+  return [
+    worldToTile(b.pos.x, b.pos.y, ts),
+    worldToTile(b.pos.x, b.pos.y + b.h / 2 + 2, ts),
+  ].some((t) => t.tx === tx && t.ty === ty);
+}
+
+// Whether a body stands on ice
+export function onIce(level: Level, b: Body) {
+  return tileCharAt(level, b.pos.x, b.pos.y + b.h / 2 + 2) === "I";
+}
+
+// Solid covering a point, e.g. the ground under a body's feet
+export function solidRectAt(solids: readonly Solid[], x: number, y: number) {
+  return solids.find(
+    (r) =>
+      x >= r.pos.x && x < r.pos.x + r.w && y >= r.pos.y && y < r.pos.y + r.h
+  );
+}
+
+// Shift a body carried by whatever it stands on, one axis at a time, unless
+// a wall is in the way; a blocked rider is simply left behind
+export function carryBody(level: Level, p: Body, dx: number, dy: number) {
+  const halfW = p.w / 2;
+  const halfH = p.h / 2;
+  const blocked = (x: number, y: number) =>
+    solidAt(level, x - halfW + 1, y - halfH) ||
+    solidAt(level, x + halfW - 1, y - halfH) ||
+    solidAt(level, x - halfW + 1, y + halfH - 1) ||
+    solidAt(level, x + halfW - 1, y + halfH - 1);
+  if (dx !== 0 && !blocked(p.pos.x + dx, p.pos.y)) p.pos.x += dx;
+  if (dy !== 0 && !blocked(p.pos.x, p.pos.y + dy)) p.pos.y += dy;
+}
+
+export function moveAndCollide(
+  level: Level,
+  p: Body,
+  dt: number,
+  solids: readonly Solid[] = []
+) {
+  let nx = p.pos.x + p.vel.x * dt;
+  let ny = p.pos.y + p.vel.y * dt;
+
+  const halfW = p.w / 2;
+  const halfH = p.h / 2;
+
+  // Horizontal collision
+  if (p.vel.x > 0) {
+    if (
+      solidAt(level, nx + halfW, p.pos.y - halfH) ||
+      solidAt(level, nx + halfW, p.pos.y + halfH - 1)
+    ) {
+      const tx = Math.floor((nx + halfW) / level.tileSize);
+      nx = tx * level.tileSize - halfW - 0.01;
+      p.vel.x = 0;
+    }
+  } else if (p.vel.x < 0) {
+    if (
+      solidAt(level, nx - halfW, p.pos.y - halfH) ||
+      solidAt(level, nx - halfW, p.pos.y + halfH - 1)
+    ) {
+      const tx = Math.floor((nx - halfW) / level.tileSize) + 1;
+      nx = tx * level.tileSize + halfW + 0.01;
+      p.vel.x = 0;
+    }
+  }
+  // Solids only block from the side the body was on before the move; an
+  // entity that moved into the body pushes it in moveEntities instead
+  for (const e of solids) {
+    if (e.oneWay) continue;
+    if (p.pos.y + halfH <= e.pos.y || p.pos.y - halfH >= e.pos.y + e.h) {
+      continue;
+    }
+    if (
+      p.vel.x > 0 &&
+      p.pos.x + halfW <= e.pos.x + 0.5 &&
+      nx + halfW > e.pos.x
+    ) {
+      nx = e.pos.x - halfW - 0.01;
+      p.vel.x = 0;
+    } else if (
+      p.vel.x < 0 &&
+      p.pos.x - halfW >= e.pos.x + e.w - 0.5 &&
+      nx - halfW < e.pos.x + e.w
+    ) {
+      nx = e.pos.x + e.w + halfW + 0.01;
+      p.vel.x = 0;
+    }
+  }
+
+  // Vertical collision
+  p.onGround = false;
+  p.riding = undefined;
+  if (p.vel.y > 0) {
+    if (
+      solidAt(level, nx - halfW + 1, ny + halfH) ||
+      solidAt(level, nx + halfW - 1, ny + halfH)
+    ) {
+      const ty = Math.floor((ny + halfH) / level.tileSize);
+      ny = ty * level.tileSize - halfH - 0.01;
+      p.vel.y = 0;
+      p.onGround = true;
+    }
+  } else if (p.vel.y < 0) {
+    if (
+      solidAt(level, nx - halfW + 1, ny - halfH) ||
+      solidAt(level, nx + halfW - 1, ny - halfH)
+    ) {
+      const ty = Math.floor((ny - halfH) / level.tileSize) + 1;
+      ny = ty * level.tileSize + halfH + 0.01;
+      p.vel.y = 0;
+    }
+  }
+  for (const e of solids) {
+    if (nx + halfW - 1 <= e.pos.x || nx - halfW + 1 >= e.pos.x + e.w) {
+      continue;
+    }
+    if (
+      p.vel.y >= 0 &&
+      p.pos.y + halfH <= e.pos.y + 0.5 &&
+      ny + halfH > e.pos.y
+    ) {
+      ny = e.pos.y - halfH - 0.01;
+      p.vel.y = 0;
+      p.onGround = true;
+      p.riding = e.id;
+    } else if (
+      !e.oneWay &&
+      p.vel.y < 0 &&
+      p.pos.y - halfH >= e.pos.y + e.h - 0.5 &&
+      ny - halfH < e.pos.y + e.h
+    ) {
+      ny = e.pos.y + e.h + halfH + 0.01;
+      p.vel.y = 0;
+    }
+  }
+
+  p.pos.x = nx;
+  p.pos.y = ny;
+}
@@ -0,0 +1,576 @@
+import { worldToScreen, type Camera } from "./camera";
+import { elementById, elementByTile } from "./elements";
+import { checkpointOwner, doorOpenAt, isColoredHole } from "./tiles";
+import type {
+  Crate,
+  CrateMaterial,
+  Entity,
+  Level,
+  PlateState,
+  Player,
+  Wiring,
+} from "./types";
+
+// Canvas drawing shared by the game and the level editor
+
+// Tile range the context's current transform puts on the canvas, so a
+// scrolled view of a big level skips everything off screen
+function visibleTiles(ctx: CanvasRenderingContext2D, level: Level) {
+  const inv = ctx.getTransform().inverse();
+  const a = inv.transformPoint({ x: 0, y: 0 });
+  const b = inv.transformPoint({ x: ctx.canvas.width, y: ctx.canvas.height });
+  const ts = level.tileSize;
+  return {
+    x0: Math.max(0, Math.floor(Math.min(a.x, b.x) / ts)),
+    y0: Math.max(0, Math.floor(Math.min(a.y, b.y) / ts)),
+    x1: Math.min(level.w - 1, Math.floor(Math.max(a.x, b.x) / ts)),
+    y1: Math.min(level.h - 1, Math.floor(Math.max(a.y, b.y) / ts)),
+  };
+}
+
+export function drawLevel(
+  ctx: CanvasRenderingContext2D,
+  level: Level,
+  gateReached: Record<number, boolean> = {},
+  plates: Map<string, PlateState> = new Map(),
+  now: number = performance.now(),
+  // "tx,ty" of checkpoints some player will respawn at
+  activeCheckpoints: ReadonlySet<string> = new Set(),
+  // "tx,ty" of switches that are currently on
+  switchesOn: ReadonlySet<string> = new Set()
+) {
+  const { tileSize } = level;
+  const { x0, y0, x1, y1 } = visibleTiles(ctx, level);
+  const wireColors = channelColors(level.wiring);
+  for (let y = y0; y <= y1; y++) {
+    const row = level.tiles[y];
+    for (let x = x0; x <= x1; x++) {
+      const c = row[x];
+      const px = x * tileSize;
+      const py = y * tileSize;
+      if (c === "#") {
+        ctx.fillStyle = "#3f3f46";
+        ctx.fillRect(px, py, tileSize, tileSize);
+      } else if (c === "~") {
+        ctx.fillStyle = "#16a34a";
+        ctx.fillRect(px, py, tileSize, tileSize);
+        ctx.fillStyle = "rgba(255,255,255,0.25)";
+        ctx.fillRect(px, py + tileSize - 6, tileSize, 3);
+      } else if (c === "O") {
+        ctx.fillStyle = "#0f172a";
+        ctx.fillRect(px, py, tileSize, tileSize);
+      } else if (c === "W") {
+        ctx.fillStyle = "rgba(14,165,233,0.65)";
+        ctx.fillRect(px, py, tileSize, tileSize);
+        ctx.fillStyle = "rgba(255,255,255,0.35)";
+        ctx.fillRect(px, py + tileSize - 8, tileSize, 3);
+      } else if (c === "I") {
+        ctx.fillStyle = "#bae6fd";
+        ctx.fillRect(px, py, tileSize, tileSize);
+        ctx.strokeStyle = "rgba(255,255,255,0.8)";
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(px + 6, py + tileSize - 10);
+        ctx.lineTo(px + 14, py + 6);
+        ctx.moveTo(px + 16, py + tileSize - 6);
+        ctx.lineTo(px + 24, py + 12);
+        ctx.stroke();
+        ctx.strokeStyle = "#7dd3fc";
+        ctx.strokeRect(px + 1, py + 1, tileSize - 2, tileSize - 2);
+      } else if (isColoredHole(c)) {
+        const color = elementByTile("hole", c)!.color;
+        ctx.fillStyle = "#0f172a";
+        ctx.fillRect(px, py, tileSize, tileSize);
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 3;
+        ctx.strokeRect(px + 2, py + 2, tileSize - 4, tileSize - 4);
+        ctx.fillStyle = `${color}55`;
+        ctx.fillRect(px + 6, py + 6, tileSize - 12, tileSize - 12);
+        ctx.fillStyle = "rgba(255,255,255,0.25)";
+        ctx.fillRect(px + 4, py + tileSize - 7, tileSize - 8, 3);
+      } else if (c === "P") {
+        const key = `${x},${y}`;
+        const st = plates.get(key);
+        const pressed = st?.pressed;
+        ctx.fillStyle = pressed ? "#22c55e" : "#f59e0b";
+        const inset = pressed ? 8 : 6;
+        ctx.fillRect(
+          px + inset,
+          py + tileSize - inset - 2,
+          tileSize - inset * 2,
+          6
+        );
+        ctx.fillStyle = pressed ? "#16a34a" : "#b45309";
+        ctx.fillRect(
+          px + inset + 2,
+          py + tileSize - inset - 4,
+          tileSize - (inset + 2) * 2,
+          3
+        );
+        if (pressed && st) {
+          const t = (now - st.pressTime) / 600;
+          if (t < 1.2) {
+            ctx.strokeStyle = "rgba(34,197,94,0.55)";
+            ctx.lineWidth = 2;
+            const r = 4 + t * 12;
+            ctx.beginPath();
+            ctx.arc(
+              px + tileSize / 2,
+              py + tileSize - inset - 3,
+              r,
+              0,
+              Math.PI * 2
+            );
+            ctx.stroke();
+          }
+        }
+      } else if (c === "c" || c === "S") {
+        // Crate tiles are stripped from live levels, so only the editor
+        // draws these
+        drawCrate(
+          ctx,
+          px + 2,
+          py + 4,
+          tileSize - 4,
+          c === "c" ? "wood" : "stone"
+        );
+      } else if (c === "L" || c === "U") {
+        drawSwitch(ctx, c, px, py, tileSize, switchesOn.has(`${x},${y}`));
+      } else if (c === "F") {
+        drawFan(ctx, px, py, tileSize, switchesOn.has(`${x},${y}`), now);
+      } else if (c === "Q") {
+        if (!doorOpenAt(level, x, y)) {
+          ctx.fillStyle = "#7c3aed";
+          ctx.fillRect(px, py, tileSize, tileSize);
+          ctx.fillStyle = "#a78bfa";
+          ctx.fillRect(px + 6, py + 6, tileSize - 12, tileSize - 12);
+        } else {
+          ctx.strokeStyle = "rgba(124,58,237,0.4)";
+          ctx.strokeRect(px + 4, py + 4, tileSize - 8, tileSize - 8);
+        }
+      } else if (c === "b") {
+        ctx.fillStyle = "#dc2626";
+        ctx.fillRect(px, py, tileSize, tileSize);
+        ctx.fillStyle = "#fecaca";
+        ctx.fillRect(px + 6, py + 6, tileSize - 12, tileSize - 12);
+      } else if (c === "d") {
+        ctx.fillStyle = "#a16207";
+        ctx.fillRect(px, py, tileSize, tileSize);
+        ctx.fillStyle = "rgba(66,32,6,0.45)";
+        for (const [dx, dy] of [
+          [6, 7],
+          [19, 5],
+          [12, 16],
+          [24, 20],
+          [5, 24],
+        ]) {
+          ctx.fillRect(px + dx, py + dy, 3, 3);
+        }
+      } else if (c === "X") {
+        ctx.fillStyle = "#92400e";
+        ctx.fillRect(px, py, tileSize, tileSize);
+        ctx.strokeStyle = "#f59e0b";
+        ctx.strokeRect(px + 4, py + 4, tileSize - 8, tileSize - 8);
+      } else if (checkpointOwner(c) !== null) {
+        drawCheckpoint(
+          ctx,
+          px,
+          py,
+          tileSize,
+          checkpointColor(checkpointOwner(c)!),
+          activeCheckpoints.has(`${x},${y}`)
+        );
+      } else if (elementByTile("gate", c)) {
+        const gate = elementByTile("gate", c)!;
+        ctx.fillStyle = gate.color;
+        ctx.fillRect(px, py, tileSize, tileSize);
+        ctx.fillStyle = gate.accent;
+        ctx.fillRect(px + 5, py + 5, tileSize - 10, tileSize - 10);
+        ctx.strokeStyle = "rgba(0,0,0,0.25)";
+        ctx.lineWidth = 2;
+        for (let i = 0; i < 3; i++) {
+          const gx = px + 8 + i * 8;
+          ctx.beginPath();
+          ctx.moveTo(gx, py + 4);
+          ctx.lineTo(gx, py + tileSize - 4);
+          ctx.stroke();
+        }
+        if (gateReached[gate.id]) {
+          ctx.strokeStyle = "rgba(0,0,0,0.6)";
+          ctx.lineCap = "round";
+          ctx.lineJoin = "round";
+          ctx.lineWidth = 6;
+          ctx.beginPath();
+          ctx.moveTo(px + 7, py + tileSize - 10);
+          ctx.lineTo(px + tileSize / 2 - 2, py + tileSize - 7);
+          ctx.lineTo(px + tileSize - 7, py + 8);
+          ctx.stroke();
+          ctx.strokeStyle = "#ffffff";
+          ctx.lineWidth = 3.5;
+          ctx.beginPath();
+          ctx.moveTo(px + 7, py + tileSize - 10);
+          ctx.lineTo(px + tileSize / 2 - 2, py + tileSize - 7);
+          ctx.lineTo(px + tileSize - 7, py + 8);
+          ctx.stroke();
+        }
+      }
+      const wire = wireColors.get(`${x},${y}`);
+      if (wire) {
+        ctx.fillStyle = wire;
+        ctx.fillRect(px + 2, py + 2, 6, 6);
+        ctx.strokeStyle = "rgba(0,0,0,0.5)";
+        ctx.lineWidth = 1;
+        ctx.strokeRect(px + 2.5, py + 2.5, 5, 5);
+      }
+    }
+  }
+}
+
+// Wired switches and doors get a corner tag in their channel's color, so
+// players can tell which plate opens which door
+const WIRE_PALETTE = ["#f43f5e", "#3b82f6", "#22c55e", "#a855f7", "#f97316"];
+
+function channelColors(wiring: Wiring) {
+  const order: string[] = [];
+  const colorOf = (channel: string) => {
+    if (!order.includes(channel)) order.push(channel);
+    return WIRE_PALETTE[order.indexOf(channel) % WIRE_PALETTE.length];
+  };
+  const tags = new Map<string, string>();
+  for (const door of wiring.doors) {
+    tags.set(`${door.tx},${door.ty}`, colorOf(door.channel));
+  }
+  for (const sw of wiring.switches) {
+    tags.set(`${sw.tx},${sw.ty}`, colorOf(sw.channel));
+  }
+  return tags;
+}
+
+// Levers lean right while on; buttons sink in while on
+function drawSwitch(
+  ctx: CanvasRenderingContext2D,
+  ch: "L" | "U",
+  px: number,
+  py: number,
+  tileSize: number,
+  on: boolean
+) {
+  ctx.fillStyle = "#52525b";
+  ctx.fillRect(px + 6, py + tileSize - 6, tileSize - 12, 6);
+  if (ch === "L") {
+    const baseX = px + tileSize / 2;
+    const baseY = py + tileSize - 6;
+    const lean = on ? 0.5 : -0.5;
+    const tipX = baseX + Math.sin(lean) * tileSize * 0.55;
+    const tipY = baseY - Math.cos(lean) * tileSize * 0.55;
+    ctx.strokeStyle = "#a1a1aa";
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(baseX, baseY);
+    ctx.lineTo(tipX, tipY);
+    ctx.stroke();
+    ctx.fillStyle = on ? "#22c55e" : "#ef4444";
+    ctx.beginPath();
+    ctx.arc(tipX, tipY, 4, 0, Math.PI * 2);
+    ctx.fill();
+  } else {
+    const height = on ? 3 : 7;
+    ctx.fillStyle = on ? "#22c55e" : "#ef4444";
+    ctx.fillRect(px + 10, py + tileSize - 6 - height, tileSize - 20, height);
+  }
+}
+
+// A fan spins while its switch is on
+function drawFan(
+  ctx: CanvasRenderingContext2D,
+  px: number,
+  py: number,
+  tileSize: number,
+  on: boolean,
+  now: number
+) {
+  const cx = px + tileSize / 2;
+  const cy = py + tileSize / 2;
+  const r = tileSize / 2 - 3;
+  ctx.strokeStyle = "#71717a";
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(cx, cy, r, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.fillStyle = on ? "#38bdf8" : "#a1a1aa";
+  const spin = on ? now / 80 : 0;
+  for (let i = 0; i < 3; i++) {
+    const a = spin + (i * Math.PI * 2) / 3;
+    ctx.beginPath();
+    ctx.moveTo(cx, cy);
+    ctx.arc(cx, cy, r - 2, a, a + 0.8);
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.fillStyle = "#52525b";
+  ctx.beginPath();
+  ctx.arc(cx, cy, 3, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+// Shared checkpoints are gold; personal ones take their player's color
+function checkpointColor(owner: number) {
+  return elementById(owner)?.color ?? "#eab308";
+}
+
+// A pole whose flag is raised once someone will respawn there
+function drawCheckpoint(
+  ctx: CanvasRenderingContext2D,
+  px: number,
+  py: number,
+  tileSize: number,
+  color: string,
+  active: boolean
+) {
+  const poleX = px + tileSize * 0.3;
+  ctx.fillStyle = "#52525b";
+  ctx.fillRect(poleX, py + 3, 3, tileSize - 3);
+  ctx.fillRect(px + 4, py + tileSize - 3, tileSize - 8, 3);
+  const flagY = active ? py + 3 : py + tileSize * 0.55;
+  ctx.fillStyle = active ? color : `${color}88`;
+  ctx.beginPath();
+  ctx.moveTo(poleX + 3, flagY);
+  ctx.lineTo(poleX + 3 + tileSize * 0.5, flagY + 5);
+  ctx.lineTo(poleX + 3, flagY + 10);
+  ctx.closePath();
+  ctx.fill();
+}
+
+// Moving platforms are grey, elevators take the plate color. A faint rail
+// marks the path each one travels.
+export function drawEntities(
+  ctx: CanvasRenderingContext2D,
+  entities: readonly Entity[]
+) {
+  ctx.save();
+  ctx.strokeStyle = "rgba(113,113,122,0.45)";
+  ctx.lineWidth = 2;
+  ctx.setLineDash([4, 6]);
+  for (const e of entities) {
+    ctx.beginPath();
+    ctx.moveTo(e.from.x + e.w / 2, e.from.y + e.h / 2);
+    ctx.lineTo(e.to.x + e.w / 2, e.to.y + e.h / 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+  for (const e of entities) {
+    const { x, y } = e.pos;
+    const elevator = e.type === "elevator";
+    ctx.fillStyle = elevator ? "#b45309" : "#52525b";
+    ctx.fillRect(x, y, e.w, e.h);
+    ctx.fillStyle = elevator ? "#f59e0b" : "#a1a1aa";
+    ctx.fillRect(x, y, e.w, 4);
+    ctx.fillStyle = "rgba(0,0,0,0.25)";
+    for (let bx = x + 8; bx < x + e.w - 4; bx += 16) {
+      ctx.fillRect(bx, y + e.h / 2, 4, 3);
+    }
+  }
+}
+
+export function drawCrates(
+  ctx: CanvasRenderingContext2D,
+  crates: readonly Crate[]
+) {
+  for (const c of crates) {
+    drawCrate(ctx, c.pos.x - c.w / 2, c.pos.y - c.h / 2, c.w, c.material);
+  }
+}
+
+// Wood is a braced plank box, stone a grey block with a crack
+function drawCrate(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  size: number,
+  material: CrateMaterial
+) {
+  ctx.save();
+  if (material === "wood") {
+    ctx.fillStyle = "#b45309";
+    ctx.fillRect(x, y, size, size);
+    ctx.strokeStyle = "#78350f";
+    ctx.lineWidth = 3;
+    ctx.strokeRect(x + 1.5, y + 1.5, size - 3, size - 3);
+    ctx.beginPath();
+    ctx.moveTo(x + 3, y + 3);
+    ctx.lineTo(x + size - 3, y + size - 3);
+    ctx.stroke();
+  } else {
+    ctx.fillStyle = "#71717a";
+    ctx.fillRect(x, y, size, size);
+    ctx.fillStyle = "#a1a1aa";
+    ctx.fillRect(x, y, size, 4);
+    ctx.strokeStyle = "#3f3f46";
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(x + size * 0.3, y + 4);
+    ctx.lineTo(x + size * 0.45, y + size * 0.5);
+    ctx.lineTo(x + size * 0.35, y + size - 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+export function drawPlayer(ctx: CanvasRenderingContext2D, p: Player) {
+  const { x, y } = p.pos;
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.fillStyle = p.color;
+  ctx.fillRect(-p.w / 2, -p.h / 2, p.w, p.h);
+  ctx.fillStyle = "#0b0b0b";
+  ctx.fillRect(-p.w / 4, -p.h / 4, 4, 4);
+  ctx.fillRect(p.w / 4 - 4, -p.h / 4, 4, 4);
+  ctx.fillStyle = "rgba(0,0,0,0.2)";
+  ctx.fillRect(-p.w / 2, p.h / 2 - 2, p.w, 4);
+  ctx.fillStyle = "rgba(255,255,255,0.5)";
+  ctx.fillRect(
+    p.facing === 1 ? p.w / 2 - 2 : -p.w / 2 - 2,
+    -p.h / 4,
+    2,
+    p.h / 2
+  );
+  ctx.restore();
+}
+
+// Ring beside a character that shrinks as its ability recharges; left is
+// the fraction of the cooldown still to go
+export function drawCooldown(
+  ctx: CanvasRenderingContext2D,
+  p: Player,
+  left: number
+) {
+  if (left <= 0) return;
+  const x = p.pos.x + p.w / 2 + 6;
+  const y = p.pos.y - p.h / 2;
+  ctx.save();
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = "rgba(0,0,0,0.35)";
+  ctx.beginPath();
+  ctx.arc(x, y, 5, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.strokeStyle = p.color;
+  ctx.beginPath();
+  ctx.arc(x, y, 5, -Math.PI / 2, -Math.PI / 2 + left * Math.PI * 2);
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Outline of the tile Earth is aiming at
+export function drawAimCursor(
+  ctx: CanvasRenderingContext2D,
+  tx: number,
+  ty: number,
+  tileSize: number,
+  color: string
+) {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([5, 4]);
+  ctx.strokeRect(
+    tx * tileSize + 2,
+    ty * tileSize + 2,
+    tileSize - 4,
+    tileSize - 4
+  );
+  ctx.restore();
+}
+
+// Small pointer above the character a seat is currently steering
+export function drawActiveMarker(ctx: CanvasRenderingContext2D, p: Player) {
+  const x = p.pos.x;
+  const y = p.pos.y - p.h / 2 - 8;
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(x - 6, y - 8);
+  ctx.lineTo(x + 6, y - 8);
+  ctx.lineTo(x, y);
+  ctx.closePath();
+  ctx.fillStyle = p.color;
+  ctx.fill();
+  ctx.lineWidth = 1.5;
+  ctx.strokeStyle = "#ffffff";
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Arrows on the view edge pointing at living players the camera can't fit.
+// Drawn in screen space, so this resets the transform to the plain DPR scale.
+export function drawOffscreenArrows(
+  ctx: CanvasRenderingContext2D,
+  cam: Camera,
+  players: Player[],
+  dpr: number
+) {
+  const inset = 18;
+  const size = 10;
+  ctx.save();
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  for (const p of players) {
+    if (!p.alive) continue;
+    const s = worldToScreen(cam, p.pos.x, p.pos.y);
+    const halfW = (p.w / 2) * cam.zoom;
+    const halfH = (p.h / 2) * cam.zoom;
+    if (
+      s.x + halfW >= 0 &&
+      s.x - halfW <= cam.viewW &&
+      s.y + halfH >= 0 &&
+      s.y - halfH <= cam.viewH
+    ) {
+      continue;
+    }
+    const x = Math.min(Math.max(s.x, inset), cam.viewW - inset);
+    const y = Math.min(Math.max(s.y, inset), cam.viewH - inset);
+    const angle = Math.atan2(s.y - y, s.x - x);
+    ctx.save();
+    ctx.translate(x, y);
+    ctx.rotate(angle);
+    ctx.beginPath();
+    ctx.moveTo(size, 0);
+    ctx.lineTo(-size, -size * 0.8);
+    ctx.lineTo(-size * 0.5, 0);
+    ctx.lineTo(-size, size * 0.8);
+    ctx.closePath();
+    ctx.fillStyle = p.color;
+    ctx.fill();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = "#ffffff";
+    ctx.stroke();
+    ctx.restore();
+  }
+  ctx.restore();
+}
+
+// Spawn digits are stripped from live levels, so only the editor shows them
+export function drawSpawnMarker(
+  ctx: CanvasRenderingContext2D,
+  ch: string,
+  px: number,
+  py: number,
+  tileSize: number
+) {
+  const color = elementByTile("spawn", ch)?.color;
+  if (!color) return;
+  ctx.save();
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(
+    px + tileSize / 2,
+    py + tileSize / 2,
+    tileSize * 0.38,
+    0,
+    Math.PI * 2
+  );
+  ctx.fill();
+  ctx.fillStyle = "#ffffff";
+  ctx.font = `bold ${Math.floor(tileSize * 0.5)}px monospace`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(ch, px + tileSize / 2, py + tileSize / 2 + 1);
+  ctx.restore();
+}
@@ -0,0 +1,176 @@
+import { SIM_DT, SIM_HZ } from "./constants";
+import { parseLevelFile } from "./level-format";
+import { createGameState, stepGame } from "./simulation";
+import type { GameState, InputSnapshot, KeyBinding, LevelFile } from "./types";
+
+// A recording is the level, the key bindings and the input of every
+// simulation tick. Inputs are stored as bitmasks over `keys` and run-length
+// encoded, so a minute of play is a few hundred short tuples.
+export const RECORDING_VERSION = 1;
+
+// [ticks, pressedMask, doubleTapMask]
+export type RecordedRun = [number, number, number];
+
+export type Recording = {
+  version: typeof RECORDING_VERSION;
+  level: number;
+  tickRate: number;
+  bindings: Record<number, KeyBinding>;
+  // The full custom level; absent for built-in levels
+  levelFile?: LevelFile;
+  keys: string[];
+  runs: RecordedRun[];
+};
+
+export function createRecording(
+  level: number,
+  bindings: Record<number, KeyBinding>,
+  levelFile?: LevelFile
+): Recording {
+  const keys: string[] = [];
+  for (const id of Object.keys(bindings)) {
+    const kb = bindings[Number(id)];
+    for (const key of [kb.left, kb.right, kb.jump, kb.action]) {
+      if (key && !keys.includes(key)) keys.push(key);
+    }
+  }
+  return {
+    version: RECORDING_VERSION,
+    level,
+    tickRate: SIM_HZ,
+    bindings: JSON.parse(JSON.stringify(bindings)),
+    ...(levelFile ? { levelFile: JSON.parse(JSON.stringify(levelFile)) } : {}),
+    keys,
+    runs: [],
+  };
+}
+
+function toMask(keys: string[], set: ReadonlySet<string>) {
+  let mask = 0;
+  keys.forEach((key, i) => {
+    if (set.has(key)) mask |= 1 << i;
+  });
+  return mask;
+}
+
+function fromMask(keys: string[], mask: number) {
+  const set = new Set<string>();
+  keys.forEach((key, i) => {
+    if (mask & (1 << i)) set.add(key);
+  });
+  return set;
+}
+
+// Append the input of one tick; keys that are not bound are dropped
+export function recordTick(rec: Recording, input: InputSnapshot) {
+  const pressed = toMask(rec.keys, input.pressed);
+  const doubleTap = toMask(rec.keys, input.doubleTap);
+  const last = rec.runs[rec.runs.length - 1];
+  if (last && last[1] === pressed && last[2] === doubleTap) last[0]++;
+  else rec.runs.push([1, pressed, doubleTap]);
+}
+
+export function recordingLength(rec: Recording) {
+  return rec.runs.reduce((n, run) => n + run[0], 0);
+}
+
+// Iterates the recorded inputs tick by tick; next() returns null at the end
+export function createPlayback(rec: Recording) {
+  let run = 0;
+  let used = 0;
+  return {
+    next(): InputSnapshot | null {
+      while (run < rec.runs.length && used >= rec.runs[run][0]) {
+        run++;
+        used = 0;
+      }
+      if (run >= rec.runs.length) return null;
+      used++;
+      const [, pressed, doubleTap] = rec.runs[run];
+      return {
+        pressed: fromMask(rec.keys, pressed),
+        doubleTap: fromMask(rec.keys, doubleTap),
+      };
+    },
+  };
+}
+
+// Run a recording headlessly from the start of its level and return every
+// state, e.g. to reproduce a bug report in Node
+export function replayRecording(rec: Recording): GameState[] {
+  let state = createGameState(rec.level, rec.bindings, rec.levelFile);
+  const states = [state];
+  const playback = createPlayback(rec);
+  for (let input = playback.next(); input; input = playback.next()) {
+    state = stepGame(state, input, SIM_DT);
+    states.push(state);
+  }
+  return states;
+}
+
+export function serializeRecording(rec: Recording) {
+  return JSON.stringify(rec);
+}
+
+function isRecordedRun(v: unknown): v is RecordedRun {
+  return (
+    Array.isArray(v) &&
+    v.length === 3 &&
+    v.every((n) => typeof n === "number" && Number.isInteger(n) && n >= 0)
+  );
+}
+
+function isKeyBinding(v: unknown): v is KeyBinding {
+  if (!v || typeof v !== "object") return false;
+  const kb = v as Record<string, unknown>;
+  return ["left", "right", "jump", "action"].every(
+    (field) => typeof kb[field] === "string"
+  );
+}
+
+function isBindings(v: unknown): v is Record<number, KeyBinding> {
+  return !!v && typeof v === "object" && Object.values(v).every(isKeyBinding);
+}
+
+export function parseRecording(text: string): Recording {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Replay file is not valid JSON");
+  }
+  const d = (data && typeof data === "object" ? data : {}) as Record<
+    string,
+    unknown
+  >;
+  if (d.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported replay version: ${d.version}`);
+  }
+  if (d.tickRate !== SIM_HZ) {
+    throw new Error(
+      `Replay was recorded at ${d.tickRate} Hz; this build runs at ${SIM_HZ} Hz`
+    );
+  }
+  if (
+    typeof d.level !== "number" ||
+    !Array.isArray(d.keys) ||
+    !d.keys.every((key): key is string => typeof key === "string") ||
+    !Array.isArray(d.runs) ||
+    !d.runs.every(isRecordedRun) ||
+    !isBindings(d.bindings)
+  ) {
+    throw new Error("Replay file is missing level, keys, runs or bindings");
+  }
+  // Older recordings stored a custom level as bare ASCII rows, which
+  // parseLevelFile upgrades
+  const rawLevel = Array.isArray(d.map) ? d.map : d.levelFile;
+  return {
+    version: RECORDING_VERSION,
+    level: d.level,
+    tickRate: SIM_HZ,
+    bindings: d.bindings,
+    ...(rawLevel ? { levelFile: parseLevelFile(rawLevel) } : {}),
+    keys: d.keys,
+    runs: d.runs,
+  };
+}
@@ -0,0 +1,205 @@
+import { parseRecords, type SpeedrunRecords } from "./speedrun";
+import type { KeyBinding } from "./types";
+
+// Settings and campaign progress, kept in localStorage between visits and
+// exported as a file to move them to another machine. Saves carry their
+// version; fields a save lacks or has garbled fall back to the defaults, so
+// an old or hand-edited save still loads.
+export const SAVE_VERSION = 1;
+export const SAVE_STORAGE_KEY = "four-element-platformer/save";
+
+export type LevelBest = {
+  // Fewest deaths and shortest time (simulated ms) over all clears; they may
+  // come from different runs
+  deaths: number;
+  time: number;
+};
+
+export type Progress = {
+  // Highest built-in level index that can be picked
+  unlockedLevel: number;
+  // Per built-in level index, once the level has been cleared
+  best: Record<number, LevelBest>;
+};
+
+export type AudioPrefs = {
+  // 0..1, applied on top of each sound's own volume
+  volume: number;
+  muted: boolean;
+};
+
+export type DisplayPrefs = {
+  // Key overlays above the characters on level 1
+  keyHints: boolean;
+  // Edge arrows pointing at characters the camera can't fit
+  offscreenArrows: boolean;
+};
+
+export type SaveData = {
+  version: typeof SAVE_VERSION;
+  bindings: Record<number, KeyBinding>;
+  swapKeys: Record<number, string>;
+  currentLevel: number;
+  progress: Progress;
+  audio: AudioPrefs;
+  display: DisplayPrefs;
+  // Name entered on the leaderboards
+  team: string;
+  records: SpeedrunRecords;
+};
+
+export const DEFAULT_PROGRESS: Progress = { unlockedLevel: 0, best: {} };
+export const DEFAULT_AUDIO: AudioPrefs = { volume: 1, muted: false };
+export const DEFAULT_DISPLAY: DisplayPrefs = {
+  keyHints: true,
+  offscreenArrows: true,
+};
+
+// Fold a clear into the progress: unlock the next level and keep the bests
+export function recordClear(
+  progress: Progress,
+  level: number,
+  deaths: number,
+  time: number,
+  levelCount: number
+): Progress {
+  const prev = progress.best[level];
+  return {
+    unlockedLevel: Math.max(
+      progress.unlockedLevel,
+      Math.min(level + 1, levelCount - 1)
+    ),
+    best: {
+      ...progress.best,
+      [level]: prev
+        ? {
+            deaths: Math.min(prev.deaths, deaths),
+            time: Math.min(prev.time, time),
+          }
+        : { deaths, time },
+    },
+  };
+}
+
+export function serializeSave(save: SaveData) {
+  return JSON.stringify(save, null, 2);
+}
+
+const isCount = (v: unknown): v is number =>
+  typeof v === "number" && Number.isInteger(v) && v >= 0;
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+function parseBindings(
+  data: unknown,
+  defaults: Record<number, KeyBinding>
+): Record<number, KeyBinding> {
+  const bindings: Record<number, KeyBinding> = {};
+  for (const id of Object.keys(defaults).map(Number)) {
+    const kb = isObject(data) ? data[id] : undefined;
+    // Wind had no action before its gust, so older saves leave it empty
+    bindings[id] =
+      isObject(kb) &&
+      typeof kb.left === "string" &&
+      typeof kb.right === "string" &&
+      typeof kb.jump === "string" &&
+      typeof kb.action === "string"
+        ? {
+            left: kb.left,
+            right: kb.right,
+            jump: kb.jump,
+            action: kb.action || defaults[id].action,
+          }
+        : { ...defaults[id] };
+  }
+  return bindings;
+}
+
+function parseProgress(data: unknown): Progress {
+  if (!isObject(data)) return DEFAULT_PROGRESS;
+  const best: Record<number, LevelBest> = {};
+  if (isObject(data.best)) {
+    for (const [key, b] of Object.entries(data.best)) {
+      const level = Number(key);
+      if (isCount(level) && isObject(b) && isCount(b.deaths)) {
+        if (typeof b.time === "number" && b.time >= 0) {
+          best[level] = { deaths: b.deaths, time: b.time };
+        }
+      }
+    }
+  }
+  return {
+    unlockedLevel: isCount(data.unlockedLevel) ? data.unlockedLevel : 0,
+    best,
+  };
+}
+
+// Throws on anything that is not a save at all; otherwise repairs what it can
+export function parseSave(text: string, defaults: SaveData): SaveData {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Save file is not valid JSON");
+  }
+  if (!isObject(data) || typeof data.version !== "number") {
+    throw new Error("Save file has no version");
+  }
+  if (data.version > SAVE_VERSION) {
+    throw new Error(
+      `Save is from a newer version (${data.version}) of the game`
+    );
+  }
+  const swapKeys: Record<number, string> = { ...defaults.swapKeys };
+  if (isObject(data.swapKeys)) {
+    for (const id of Object.keys(swapKeys).map(Number)) {
+      const key = data.swapKeys[id];
+      if (typeof key === "string") swapKeys[id] = key;
+    }
+  }
+  const audio = isObject(data.audio) ? data.audio : {};
+  const display = isObject(data.display) ? data.display : {};
+  return {
+    version: SAVE_VERSION,
+    bindings: parseBindings(data.bindings, defaults.bindings),
+    swapKeys,
+    currentLevel: isCount(data.currentLevel)
+      ? data.currentLevel
+      : defaults.currentLevel,
+    progress: parseProgress(data.progress),
+    audio: {
+      volume:
+        typeof audio.volume === "number" &&
+        audio.volume >= 0 &&
+        audio.volume <= 1
+          ? audio.volume
+          : defaults.audio.volume,
+      muted:
+        typeof audio.muted === "boolean" ? audio.muted : defaults.audio.muted,
+    },
+    display: {
+      keyHints:
+        typeof display.keyHints === "boolean"
+          ? display.keyHints
+          : defaults.display.keyHints,
+      offscreenArrows:
+        typeof display.offscreenArrows === "boolean"
+          ? display.offscreenArrows
+          : defaults.display.offscreenArrows,
+    },
+    team: typeof data.team === "string" ? data.team : defaults.team,
+    records: parseRecords(data.records),
+  };
+}
+
+// Storage can refuse access (private windows, blocked cookies, a full
+// quota), and a stored save can be broken. Both throw; the game carries on
+// with the save it has and shows the reason in its settings.
+export function readSave(storage: Storage | undefined, defaults: SaveData) {
+  const text = storage?.getItem(SAVE_STORAGE_KEY);
+  return text ? parseSave(text, defaults) : null;
+}
+
+export function writeSave(storage: Storage | undefined, save: SaveData) {
+  storage?.setItem(SAVE_STORAGE_KEY, JSON.stringify(save));
+}
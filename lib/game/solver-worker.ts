@@ -0,0 +1,41 @@
+import { createSolver, type SolverResult } from "./solver";
+import type { KeyBinding, LevelFile } from "./types";
+
+// Runs the editor's solvability check off the main thread. The search
+// reports progress as it goes and gives up once its time budget is spent;
+// the editor cancels it by terminating the worker.
+
+export type SolverRequest = {
+  levelFile: LevelFile;
+  bindings: Record<number, KeyBinding>;
+  budgetMs: number;
+};
+
+export type SolverMessage =
+  | { type: "progress"; expansions: number }
+  | { type: "done"; result: SolverResult };
+
+// Expansions between progress reports
+const SLICE = 5;
+
+function post(msg: SolverMessage) {
+  self.postMessage(msg);
+}
+
+self.onmessage = (e: MessageEvent<SolverRequest>) => {
+  const { levelFile, bindings, budgetMs } = e.data;
+  const solver = createSolver(0, bindings, levelFile);
+  const deadline = Date.now() + budgetMs;
+  for (;;) {
+    const result =
+      solver.run(SLICE) ??
+      (Date.now() >= deadline
+        ? ({ status: "gave-up", expansions: solver.expansions } as const)
+        : null);
+    if (result) {
+      post({ type: "done", result });
+      return;
+    }
+    post({ type: "progress", expansions: solver.expansions });
+  }
+};
@@ -0,0 +1,481 @@
+import {
+  EARTH_AIM_HOLD,
+  GRAVITY,
+  JUMP_SPEED,
+  MOVE_SPEED,
+  SIM_DT,
+  SIM_HZ,
+  TILE,
+} from "./constants";
+import { elementById } from "./elements";
+import { createHeap } from "./heap";
+import {
+  createRecording,
+  recordingLength,
+  recordTick,
+  type Recording,
+} from "./replay";
+import { cloneGameState, createGameState, stepGameInPlace } from "./simulation";
+import { isHazardFor, isLiquidForPlayer, tileCharAt } from "./tiles";
+import type {
+  Crate,
+  GameState,
+  InputSnapshot,
+  KeyBinding,
+  LevelFile,
+  Player,
+  TempPlatform,
+} from "./types";
+
+// Brute-force proof that a level can be beaten. The search runs the real
+// simulation, one player and one short macro (walk, jump, use ability, ...)
+// at a time, and lets everyone settle before branching again. States are
+// deduplicated on player positions and speeds, the tile grid (broken
+// barriers, filled holes, earth platforms), pressed plates, platform timers
+// and what the checkpoints reached so far saved.
+//
+// "solved" comes with a replay that wins. "unsolvable" means the search ran
+// out of states: no sequence of these macros wins, so the level needs moves
+// the solver doesn't model or can't be beaten. "gave-up" only means the
+// budget ran out first.
+
+export type SolverResult =
+  | {
+      status: "solved";
+      recording: Recording;
+      ticks: number;
+      expansions: number;
+    }
+  | { status: "unsolvable"; expansions: number }
+  | { status: "gave-up"; expansions: number };
+
+export type SolverOptions = {
+  // Weight of the distance-to-goal estimate against path length; higher
+  // finds answers faster but they are less direct
+  greed?: number;
+};
+
+// Keys held for a number of ticks; doubleTap applies to the first tick only.
+// untilReady ends the phase early once the player's ability and dash are
+// off cooldown.
+type Phase = {
+  pressed: string[];
+  doubleTap?: string[];
+  ticks: number;
+  untilReady?: boolean;
+};
+type Macro = Phase[];
+
+type SearchNode = {
+  state: GameState;
+  parent: SearchNode | null;
+  inputs: Array<[InputSnapshot, number]>;
+  depth: number;
+};
+
+const SETTLE_MAX_TICKS = SIM_HZ;
+// Long enough for the slowest cooldown (Earth's) to run out
+const READY_MAX_TICKS = SIM_HZ * 2;
+const POSITION_QUANTUM = TILE / 2; // px
+const VELOCITY_QUANTUM = 120; // px/s
+const TIMER_QUANTUM = 500; // ms
+
+const STEP_TICKS = Math.round((TILE / MOVE_SPEED) * SIM_HZ);
+const AIR_TICKS = Math.round(((2 * JUMP_SPEED) / GRAVITY) * SIM_HZ);
+const AIM_TICKS = Math.ceil(EARTH_AIM_HOLD * SIM_HZ) + 1;
+
+function macrosFor(p: Player): Macro[] {
+  const { left, right, jump, action } = p.controls;
+  const element = elementById(p.id);
+  // Idle first so the ability or dash isn't pressed while it can't fire
+  const ready: Phase = {
+    pressed: [],
+    ticks: READY_MAX_TICKS,
+    untilReady: true,
+  };
+  const macros: Macro[] = [
+    [{ pressed: [left], ticks: STEP_TICKS }],
+    [{ pressed: [right], ticks: STEP_TICKS }],
+    [{ pressed: [left], ticks: STEP_TICKS * 4 }],
+    [{ pressed: [right], ticks: STEP_TICKS * 4 }],
+    // Also swims up when in liquid
+    [{ pressed: [jump], ticks: Math.round(AIR_TICKS / 2) }],
+    [{ pressed: [jump, left], ticks: AIR_TICKS }],
+    [{ pressed: [jump, right], ticks: AIR_TICKS }],
+    // Hops: steer only on the way up, to land short of a full jump
+    [{ pressed: [jump, left], ticks: Math.round(AIR_TICKS / 2) }],
+    [{ pressed: [jump, right], ticks: Math.round(AIR_TICKS / 2) }],
+    // Straight up, then steer at the top onto a ledge beside
+    [
+      { pressed: [jump], ticks: Math.round(AIR_TICKS / 2) },
+      { pressed: [left], ticks: Math.round(AIR_TICKS / 2) },
+    ],
+    [
+      { pressed: [jump], ticks: Math.round(AIR_TICKS / 2) },
+      { pressed: [right], ticks: Math.round(AIR_TICKS / 2) },
+    ],
+  ];
+  if (action) {
+    macros.push([ready, { pressed: [action], ticks: 1 }]);
+    // Earth can build under itself at the top of a jump
+    if (element?.builds) {
+      macros.push([
+        ready,
+        { pressed: [jump], ticks: Math.round(AIR_TICKS / 2) },
+        { pressed: [action], ticks: 1 },
+      ]);
+    }
+    // Hold to aim and let go as the macro ends. For Earth, below raises a
+    // pillar underfoot (or digs), the other directions dig or build beside
+    // and above.
+    if (element?.action.steering) {
+      for (const aim of [
+        [],
+        [left],
+        [right],
+        [jump],
+        [jump, left],
+        [jump, right],
+      ]) {
+        macros.push([ready, { pressed: [action, ...aim], ticks: AIM_TICKS }]);
+      }
+    }
+  }
+  if (element?.dash) {
+    macros.push([ready, { pressed: [], doubleTap: [left], ticks: 1 }]);
+    macros.push([ready, { pressed: [], doubleTap: [right], ticks: 1 }]);
+    macros.push([ready, { pressed: [], doubleTap: [jump], ticks: 1 }]);
+    macros.push([ready, { pressed: [jump], doubleTap: [left], ticks: 1 }]);
+    macros.push([ready, { pressed: [jump], doubleTap: [right], ticks: 1 }]);
+  }
+  return macros;
+}
+
+function isReady(s: GameState, playerId: number) {
+  const p = s.players.find((q) => q.id === playerId);
+  return (
+    !p || (s.time >= p.abilityCooldownUntil && s.time >= p.dashCooldownUntil)
+  );
+}
+
+function atRest(s: GameState) {
+  return s.players.every((p) => {
+    if (p.isDashing) return false;
+    const ch = tileCharAt(s.level, p.pos.x, p.pos.y);
+    if (isLiquidForPlayer(ch, p.id)) return Math.abs(p.vel.y) < 40;
+    return p.onGround && p.vel.x === 0;
+  });
+}
+
+function stateKey(s: GameState) {
+  const q = (v: number) => Math.round(v / POSITION_QUANTUM);
+  const qv = (v: number) => Math.round(v / VELOCITY_QUANTUM);
+  const timer = (until: number) =>
+    Math.max(0, Math.ceil((until - s.time) / TIMER_QUANTUM));
+  const players = s.players
+    .map(
+      (p) =>
+        `${q(p.pos.x)},${q(p.pos.y)},${qv(p.vel.x)},${qv(p.vel.y)},${
+          p.onGround ? 1 : 0
+        },${p.airJumpsLeft},${timer(p.abilityCooldownUntil)},${timer(
+          p.dashCooldownUntil
+        )},${p.checkpoint ?? ""}`
+    )
+    .join(";");
+  let plates = "";
+  s.plates.forEach((st) => (plates += st.pressed ? "1" : "0"));
+  const temps = s.tempPlatforms
+    .map((tp) => `${tp.tx},${tp.ty},${timer(tp.expiresAt)}`)
+    .join(";");
+  const frozen = s.frozen
+    .map((ice) => `${ice.tx},${ice.ty},${timer(ice.expiresAt)}`)
+    .join(";");
+  const pillars = s.pillars
+    .map((pl) => `${pl.tx},${pl.ty},${pl.grown},${timer(pl.nextAt)}`)
+    .join(";");
+  const entities = s.entities
+    .map((e) => `${q(e.pos.x)},${q(e.pos.y)},${e.dir}`)
+    .join(";");
+  const crateKey = (c: Crate) => `${c.id},${q(c.pos.x)},${q(c.pos.y)}`;
+  const crates = s.crates.map(crateKey).join(";");
+  const switches = s.switches
+    .map((sw) => `${sw.on ? 1 : 0}${timer(sw.onUntil)}`)
+    .join(";");
+  // A death hands back what its checkpoint saved, so two states that only
+  // differ there can still play out differently
+  const saves = Object.keys(s.checkpointSaves)
+    .sort()
+    .map((key) => {
+      const save = s.checkpointSaves[key];
+      const lifetime = (t: TempPlatform) =>
+        `${t.tx},${t.ty},${Math.ceil(
+          (t.expiresAt - save.time) / TIMER_QUANTUM
+        )}`;
+      return [
+        key,
+        save.tiles.join(""),
+        save.crates.map(crateKey).join(";"),
+        save.tempPlatforms.map(lifetime).join(";"),
+        save.frozen.map(lifetime).join(";"),
+      ].join(":");
+    })
+    .join("/");
+  return `${players}|${plates}|${temps}|${frozen}|${pillars}|${entities}|${crates}|${switches}|${saves}|${s.level.tiles.join(
+    ""
+  )}`;
+}
+
+// Tile distance from every cell to the nearest target, walking through
+// anything but walls and the tiles `blocked` rules out. Barriers, doors and
+// dark holes can all change during play, so they never block.
+function distanceField(
+  s: GameState,
+  targets: Array<{ tx: number; ty: number }>,
+  blocked: (ch: string) => boolean = () => false
+) {
+  const { w, h, tiles } = s.level;
+  const dist = new Array<number>(w * h).fill(Infinity);
+  const queue: number[] = [];
+  for (const { tx, ty } of targets) {
+    const i = ty * w + tx;
+    dist[i] = 0;
+    queue.push(i);
+  }
+  for (let qi = 0; qi < queue.length; qi++) {
+    const i = queue[qi];
+    const x = i % w;
+    const y = (i - x) / w;
+    for (const [nx, ny] of [
+      [x - 1, y],
+      [x + 1, y],
+      [x, y - 1],
+      [x, y + 1],
+    ]) {
+      if (nx < 0 || ny < 0 || nx >= w || ny >= h) continue;
+      const ni = ny * w + nx;
+      const ch = tiles[ny][nx];
+      if (ch === "#" || blocked(ch) || dist[ni] !== Infinity) continue;
+      dist[ni] = dist[i] + 1;
+      queue.push(ni);
+    }
+  }
+  return dist;
+}
+
+// playerId -> distance to its gates; plate key -> playerId -> distance to
+// that plate
+type DistanceFields = {
+  gates: Map<number, number[]>;
+  plates: Map<string, Map<number, number[]>>;
+};
+
+// Distances for one player, going round the holes and poison that would
+// kill it. Where that leaves the target out of reach (Earth can still
+// fill a hole in), the straight distance stands in.
+function playerDistanceField(
+  s: GameState,
+  p: Player,
+  targets: Array<{ tx: number; ty: number }>
+) {
+  const open = distanceField(s, targets);
+  const safe = distanceField(
+    s,
+    targets,
+    (ch) => ch !== "O" && isHazardFor(ch, p.id)
+  );
+  return safe.map((d, i) => (d === Infinity ? open[i] : d));
+}
+
+function createDistanceFields(s: GameState): DistanceFields {
+  const gates = new Map<number, number[]>();
+  for (const p of s.players) {
+    const targets = (s.exits[p.id] ?? []).map((ex) => ({
+      tx: Math.floor(ex.x / TILE),
+      ty: Math.floor(ex.y / TILE),
+    }));
+    gates.set(p.id, playerDistanceField(s, p, targets));
+  }
+  const plates = new Map<string, Map<number, number[]>>();
+  s.plates.forEach((st, key) =>
+    plates.set(
+      key,
+      new Map(s.players.map((p) => [p.id, playerDistanceField(s, p, [st])]))
+    )
+  );
+  return { gates, plates };
+}
+
+// Every player's distance to its gate, plus the shortest detour anyone can
+// make through each unpressed plate. Only used to order the search, never to
+// prune it.
+function estimate(s: GameState, fields: DistanceFields) {
+  const { w, h: rows } = s.level;
+  const cell = (p: Player) =>
+    Math.floor(p.pos.y / TILE) * w + Math.floor(p.pos.x / TILE);
+  // Cells the fields can't reach (a dug wall, say) count as far away
+  const finite = (d: number | undefined) =>
+    d === undefined || d === Infinity ? w + rows : d;
+  let h = 0;
+  let platesLeft = 0;
+  if (s.level.options.requireAllPlates) {
+    s.plates.forEach((st, key) => {
+      if (st.pressed) return;
+      platesLeft++;
+      const field = fields.plates.get(key);
+      const [tx, ty] = key.split(",").map(Number);
+      // The detour: out to the plate and on to the gate, against going to
+      // the gate directly
+      const detour = (p: Player) => {
+        const gate = fields.gates.get(p.id);
+        return (
+          (field?.get(p.id)?.[cell(p)] ?? Infinity) +
+          finite(gate?.[ty * w + tx]) -
+          finite(gate?.[cell(p)])
+        );
+      };
+      h += finite(Math.min(...s.players.map(detour)));
+    });
+  }
+  for (const p of s.players) {
+    if (p.exitReached) continue;
+    h += finite(fields.gates.get(p.id)?.[cell(p)]);
+  }
+  return h + platesLeft * 8;
+}
+
+type HeapItem = { f: number; node: SearchNode };
+
+function toRecording(
+  levelIndex: number,
+  bindings: Record<number, KeyBinding>,
+  levelFile: LevelFile | undefined,
+  goal: SearchNode
+) {
+  const path: SearchNode[] = [];
+  for (let n: SearchNode | null = goal; n; n = n.parent) path.unshift(n);
+  const rec = createRecording(levelIndex, bindings, levelFile);
+  for (const node of path) {
+    for (const [input, ticks] of node.inputs) {
+      for (let i = 0; i < ticks; i++) {
+        recordTick(rec, i === 0 ? input : { ...input, doubleTap: new Set() });
+      }
+    }
+  }
+  return rec;
+}
+
+// Incremental solver so a caller can report progress or stop between
+// slices. run() returns null while the search is still going.
+export function createSolver(
+  levelIndex: number,
+  bindings: Record<number, KeyBinding>,
+  levelFile?: LevelFile,
+  options: SolverOptions = {}
+) {
+  const greed = options.greed ?? 3;
+  const start = createGameState(levelIndex, bindings, levelFile);
+  const heap = createHeap<HeapItem>((item) => item.f);
+  const seen = new Set<string>([stateKey(start)]);
+  const macros = new Map(start.players.map((p) => [p.id, macrosFor(p)]));
+  const fields = createDistanceFields(start);
+  let expansions = 0;
+  let result: SolverResult | null = null;
+
+  heap.push({
+    f: estimate(start, fields),
+    node: { state: start, parent: null, inputs: [], depth: 0 },
+  });
+
+  // Play one macro then idle until everyone settles. Returns the child
+  // node, truncated at the winning tick if the level completes on the way.
+  function expand(node: SearchNode, playerId: number, macro: Macro) {
+    const s = cloneGameState(node.state);
+    const inputs: Array<[InputSnapshot, number]> = [];
+    const phases = [...macro, { pressed: [], ticks: SETTLE_MAX_TICKS }];
+    for (let pi = 0; pi < phases.length; pi++) {
+      const phase = phases[pi];
+      const settling = pi === phases.length - 1;
+      const input: InputSnapshot = {
+        pressed: new Set(phase.pressed),
+        doubleTap: new Set(phase.doubleTap ?? []),
+      };
+      let ran = 0;
+      for (let t = 0; t < phase.ticks; t++) {
+        if (phase.untilReady && isReady(s, playerId)) break;
+        stepGameInPlace(
+          s,
+          t === 0 ? input : { pressed: input.pressed, doubleTap: new Set() },
+          SIM_DT
+        );
+        ran++;
+        if (s.completed) break;
+        if (settling && atRest(s)) break;
+      }
+      if (ran > 0) inputs.push([input, ran]);
+      if (s.completed) break;
+    }
+    return { state: s, parent: node, inputs, depth: node.depth + 1 };
+  }
+
+  function run(maxExpansions: number): SolverResult | null {
+    if (result) return result;
+    for (let budget = maxExpansions; budget > 0; budget--) {
+      const top = heap.pop();
+      if (!top) {
+        result = { status: "unsolvable", expansions };
+        return result;
+      }
+      const { node } = top;
+      expansions++;
+      for (const p of node.state.players) {
+        for (const macro of macros.get(p.id) ?? []) {
+          const child = expand(node, p.id, macro);
+          if (child.state.completed) {
+            const recording = toRecording(
+              levelIndex,
+              bindings,
+              levelFile,
+              child
+            );
+            const ticks = recordingLength(recording);
+            result = { status: "solved", recording, ticks, expansions };
+            return result;
+          }
+          const key = stateKey(child.state);
+          if (seen.has(key)) continue;
+          seen.add(key);
+          heap.push({
+            f: child.depth + greed * estimate(child.state, fields),
+            node: child,
+          });
+        }
+      }
+    }
+    return null;
+  }
+
+  return {
+    run,
+    get expansions() {
+      return expansions;
+    },
+  };
+}
+
+// Blocking variant for Node tooling: search until solved, proven unsolvable
+// or out of budget
+export function solveLevel(
+  levelIndex: number,
+  bindings: Record<number, KeyBinding>,
+  levelFile?: LevelFile,
+  maxExpansions = 20000,
+  options?: SolverOptions
+): SolverResult {
+  const solver = createSolver(levelIndex, bindings, levelFile, options);
+  return (
+    solver.run(maxExpansions) ?? {
+      status: "gave-up",
+      expansions: solver.expansions,
+    }
+  );
+}
@@ -0,0 +1,161 @@
+import type { InputSnapshot } from "./types";
+
+// Timer for racing through the built-in levels. It counts simulated time,
+// so it stops whenever the simulation does (pause, dialogs, the victory
+// screen), and starts on the first tick anyone at the keyboard presses a
+// key. Each level advance records a split: the run time at that moment.
+// Leaderboards keep the fastest times per level and for the whole campaign,
+// which only counts runs that started on level 1.
+
+export const LEADERBOARD_SIZE = 5;
+
+export type SpeedrunTimer = {
+  startLevel: number;
+  started: boolean;
+  // Simulated ms since the first input
+  elapsed: number;
+  // elapsed at each level advance, in level order from startLevel
+  splits: number[];
+};
+
+export type LeaderboardEntry = {
+  team: string;
+  // ms; a campaign entry's total
+  time: number;
+  // Campaign entries: the run's splits, to compare later runs against
+  splits?: number[];
+  // Wall-clock ms when the entry was set
+  date: number;
+};
+
+export type SpeedrunRecords = {
+  // Per built-in level index, fastest first
+  levels: Record<number, LeaderboardEntry[]>;
+  campaign: LeaderboardEntry[];
+};
+
+export const EMPTY_RECORDS: SpeedrunRecords = { levels: {}, campaign: [] };
+
+export function createTimer(startLevel: number): SpeedrunTimer {
+  return { startLevel, started: false, elapsed: 0, splits: [] };
+}
+
+// Count one simulation tick; dt in seconds
+export function tickTimer(
+  timer: SpeedrunTimer,
+  input: InputSnapshot,
+  dt: number
+) {
+  if (!timer.started && input.pressed.size === 0) return;
+  timer.started = true;
+  timer.elapsed += dt * 1000;
+}
+
+export function recordSplit(timer: SpeedrunTimer) {
+  timer.splits.push(timer.elapsed);
+}
+
+// Time spent on each level from cumulative splits
+export function segmentTimes(splits: number[]) {
+  return splits.map((t, i) => t - (i ? splits[i - 1] : 0));
+}
+
+// Insert keeping the board sorted and short; ties go to the older entry
+export function addEntry(board: LeaderboardEntry[], entry: LeaderboardEntry) {
+  return [...board, entry]
+    .sort((a, b) => a.time - b.time || a.date - b.date)
+    .slice(0, LEADERBOARD_SIZE);
+}
+
+// File the split just recorded on the level's board, and the whole run on
+// the campaign board once it has cleared every level from level 1
+export function submitSplit(
+  records: SpeedrunRecords,
+  timer: SpeedrunTimer,
+  team: string,
+  levelCount: number,
+  date: number
+): SpeedrunRecords {
+  const index = timer.splits.length - 1;
+  if (index < 0) return records;
+  const level = timer.startLevel + index;
+  const time = segmentTimes(timer.splits)[index];
+  const levels = {
+    ...records.levels,
+    [level]: addEntry(records.levels[level] ?? [], { team, time, date }),
+  };
+  const finished = timer.startLevel === 0 && timer.splits.length === levelCount;
+  const campaign = finished
+    ? addEntry(records.campaign, {
+        team,
+        time: timer.elapsed,
+        splits: [...timer.splits],
+        date,
+      })
+    : records.campaign;
+  return { levels, campaign };
+}
+
+// The run later runs are compared against
+export function bestRun(records: SpeedrunRecords) {
+  return records.campaign[0];
+}
+
+// "1:02.35"; deltas get a sign, "-0:01.20" being faster
+export function formatRunTime(ms: number, signed = false) {
+  const sign = ms < 0 ? "-" : signed ? "+" : "";
+  const cs = Math.floor(Math.abs(ms) / 10);
+  const minutes = Math.floor(cs / 6000);
+  const seconds = Math.floor(cs / 100) % 60;
+  const hundredths = cs % 100;
+  return `${sign}${minutes}:${String(seconds).padStart(2, "0")}.${String(
+    hundredths
+  ).padStart(2, "0")}`;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === "object";
+}
+
+function parseEntries(data: unknown): LeaderboardEntry[] {
+  if (!Array.isArray(data)) return [];
+  const entries: LeaderboardEntry[] = [];
+  for (const e of data as unknown[]) {
+    if (
+      !isObject(e) ||
+      typeof e.team !== "string" ||
+      typeof e.time !== "number" ||
+      typeof e.date !== "number"
+    ) {
+      continue;
+    }
+    const splits =
+      Array.isArray(e.splits) &&
+      e.splits.every((t): t is number => typeof t === "number")
+        ? e.splits
+        : undefined;
+    entries.push({
+      team: e.team,
+      time: e.time,
+      date: e.date,
+      ...(splits ? { splits } : {}),
+    });
+  }
+  return entries.sort((a, b) => a.time - b.time).slice(0, LEADERBOARD_SIZE);
+}
+
+// Leaderboards from a save; anything unreadable is dropped
+export function parseRecords(data: unknown): SpeedrunRecords {
+  if (!isObject(data)) return EMPTY_RECORDS;
+  const levels: Record<number, LeaderboardEntry[]> = {};
+  if (isObject(data.levels)) {
+    for (const [key, board] of Object.entries(data.levels)) {
+      const level = Number(key);
+      const entries = parseEntries(board);
+      if (Number.isInteger(level) && level >= 0 && entries.length) {
+        levels[level] = entries;
+      }
+    }
+  }
+  return { levels, campaign: parseEntries(data.campaign) };
+}
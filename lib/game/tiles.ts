@@ -0,0 +1,137 @@
+import { ELEMENTS, elementByTile } from "./elements";
+import { worldToTile } from "./math";
+import type { Level } from "./types";
+
+export function replaceChar(str: string, index: number, char: string) {
+  return str.substring(0, index) + char + str.substring(index + 1);
+}
+
+// Every character the engine understands, with a short description. Built
+// on call: elements.ts imports the action modules, which import this one,
+// so ELEMENTS may not be there yet while this module loads.
+export function tileTypes(): Array<{ ch: string; label: string }> {
+  return [
+    { ch: ".", label: "Empty" },
+    { ch: "#", label: "Wall" },
+    { ch: "b", label: "Barrier (Fire breaks)" },
+    { ch: "X", label: "Earth block" },
+    { ch: "d", label: "Soft dirt (Earth digs)" },
+    { ch: "O", label: "Dark hole" },
+    { ch: "W", label: "Water" },
+    { ch: "I", label: "Ice (Fire melts)" },
+    { ch: "~", label: "Poison" },
+    { ch: "P", label: "Pressure plate" },
+    { ch: "Q", label: "Door" },
+    { ch: "L", label: "Lever" },
+    { ch: "U", label: "Button" },
+    { ch: "F", label: "Fan (Wind spins)" },
+    { ch: "c", label: "Wooden crate" },
+    { ch: "S", label: "Stone crate" },
+    ...ELEMENTS.map((e) => ({ ch: e.hole, label: `${e.name} hole` })),
+    ...ELEMENTS.map((e) => ({ ch: e.spawn, label: `${e.name} spawn` })),
+    { ch: "K", label: "Checkpoint (everyone)" },
+    ...ELEMENTS.map((e) => ({
+      ch: e.checkpoint,
+      label: `${e.name} checkpoint`,
+    })),
+    ...ELEMENTS.map((e) => ({ ch: e.gate, label: `${e.name} gate` })),
+  ];
+}
+
+export function isSolid(ch: string, doorOpen: boolean) {
+  if (ch === "#") return true;
+  if (ch === "Q") return !doorOpen;
+  if (ch === "b") return true;
+  if (ch === "X") return true;
+  if (ch === "I") return true;
+  if (ch === "d") return true;
+  return false;
+}
+export function isPlate(ch: string) {
+  return ch === "P";
+}
+
+// Checkpoints move the respawn point: K for the whole team, or one
+// element's own checkpoint. Returns 0 for a shared checkpoint, the player
+// id for a personal one, or null.
+export function checkpointOwner(ch: string): number | null {
+  if (ch === "K") return 0;
+  return elementByTile("checkpoint", ch)?.id ?? null;
+}
+
+// Colored hole helpers
+export function isColoredHole(ch: string) {
+  return safePlayerForColoredHole(ch) !== null;
+}
+export function safePlayerForColoredHole(ch: string): number | null {
+  return elementByTile("hole", ch)?.id ?? null;
+}
+export function isLiquidForPlayer(ch: string, playerId: number) {
+  if (ch === "W") return true;
+  if (isColoredHole(ch)) return safePlayerForColoredHole(ch) === playerId;
+  return false;
+}
+export function isHazardFor(ch: string, playerId: number) {
+  if (ch === "~") return true; // poison
+  if (ch === "O") return true; // dark hole
+  if (isColoredHole(ch)) return safePlayerForColoredHole(ch) !== playerId;
+  return false;
+}
+
+// Tiles a switch can sit on
+export function isSwitch(ch: string) {
+  return ch === "P" || ch === "L" || ch === "U" || ch === "F";
+}
+
+export function doorOpenAt(level: Level, tx: number, ty: number) {
+  return level.wiredDoors[`${tx},${ty}`] ?? level.doorOpen;
+}
+export function tileSolid(level: Level, tx: number, ty: number) {
+  return isSolid(tileAt(level, tx, ty), doorOpenAt(level, tx, ty));
+}
+export function solidAt(level: Level, x: number, y: number) {
+  const { tx, ty } = worldToTile(x, y, level.tileSize);
+  return tileSolid(level, tx, ty);
+}
+export function tileCharAt(level: Level, x: number, y: number) {
+  const { tx, ty } = worldToTile(x, y, level.tileSize);
+  return tileAt(level, tx, ty);
+}
+export function tileAt(level: Level, tx: number, ty: number) {
+  if (ty < 0 || ty >= level.h || tx < 0 || tx >= level.w) return "#";
+  return level.tiles[ty][tx];
+}
+export function setTile(level: Level, tx: number, ty: number, ch: string) {
+  if (ty < 0 || ty >= level.h || tx < 0 || tx >= level.w) return;
+  level.tiles[ty] = replaceChar(level.tiles[ty], tx, ch);
+}
+
+// Flood-fill connected dark holes (O) using 8-direction adjacency
+export function floodFillDarkToWater(
+  level: Level,
+  startTx: number,
+  startTy: number
+) {
+  const q: Array<{ tx: number; ty: number }> = [{ tx: startTx, ty: startTy }];
+  const seen = new Set<string>();
+  let changed = 0;
+  while (q.length) {
+    const { tx, ty } = q.shift()!;
+    const key = `${tx},${ty}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (tileAt(level, tx, ty) !== "O") continue;
+    setTile(level, tx, ty, "W");
+    changed++;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        const nx = tx + dx;
+        const ny = ty + dy;
+        if (nx < 0 || ny < 0 || nx >= level.w || ny >= level.h) continue;
+        if (tileAt(level, nx, ny) === "O") q.push({ tx: nx, ty: ny });
+      }
+    }
+  }
+  return changed;
+}
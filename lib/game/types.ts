@@ -0,0 +1,282 @@
+export type Vec2 = { x: number; y: number };
+export type KeyBinding = {
+  left: string;
+  right: string;
+  jump: string;
+  action: string;
+};
+// Anything moveAndCollide can move; pos is the center
+export type Body = {
+  pos: Vec2;
+  vel: Vec2;
+  w: number;
+  h: number;
+  onGround: boolean;
+  // Id of the entity or crate the body is standing on, if any
+  riding?: number;
+};
+
+// Rectangle a body collides with; pos is the top-left corner
+// oneWay solids only hold up bodies landing on them from above
+export type Solid = {
+  id: number;
+  pos: Vec2;
+  w: number;
+  h: number;
+  oneWay?: boolean;
+};
+
+export type Player = {
+  id: number;
+  name: string;
+  color: string;
+  spawn: Vec2;
+  pos: Vec2;
+  vel: Vec2;
+  w: number;
+  h: number;
+  onGround: boolean;
+  jumpLock: boolean;
+  alive: boolean;
+  exitReached: boolean;
+  controls: KeyBinding;
+  facing: -1 | 1;
+  maxAirJumps: number;
+  airJumpsLeft: number;
+  // Wind dash
+  isDashing: boolean;
+  dashUntil: number;
+  dashCooldownUntil: number;
+  // Ability cooldowns
+  abilityCooldownUntil: number;
+  // "tx,ty" of the checkpoint that set spawn, if any
+  checkpoint?: string;
+  // Entity, crate or (negated id) player underfoot, if any
+  riding?: number;
+  // Block Earth placed last, so a quick second press can loosen it
+  lastBuild?: { tx: number; ty: number; at: number };
+  // Earth's action is down: when it went down, and the tile offset the
+  // direction keys aim at
+  earthAim?: { since: number; dx: number; dy: number };
+  // FX
+  nextStepFxTime?: number;
+};
+export type Level = {
+  name: string;
+  tiles: string[];
+  w: number;
+  h: number;
+  tileSize: number;
+  // Doors without a channel open together, on the plate count rule
+  doorOpen: boolean;
+  // Open state of doors wired to a channel, by "tx,ty"
+  wiredDoors: Record<string, boolean>;
+  wiring: Wiring;
+  options: LevelOptions;
+};
+
+// Per-level rules, stored in the level file
+export type LevelOptions = {
+  // Players that must stand on plates at the same time to open Q doors
+  platesToOpenDoors: number;
+  // Which players (1-4) take part; the others are not spawned
+  players: number[];
+  // Whether every plate must have been pressed to finish the level
+  requireAllPlates: boolean;
+  // Whether players can stand on (and ride) each other
+  playerStacking: boolean;
+};
+
+// On-disk level format (see level-format.ts)
+export type LevelFile = {
+  version: number;
+  name: string;
+  description: string;
+  author: string;
+  hints?: string[];
+  // Target completion time in seconds
+  parTime?: number;
+  tiles: string[];
+  options: LevelOptions;
+  entities?: EntitySpec[];
+  wiring?: Wiring;
+};
+
+// How a switch turns its channel on. hold: while occupied; toggle: flips on
+// every new touch; latch: stays on after the first touch; timed: stays on
+// for `duration` ms after each touch.
+export type SwitchMode = "hold" | "toggle" | "latch" | "timed";
+
+// Named channels: switches (plates, levers and buttons) drive them, logic
+// combines them, and doors and elevators follow them
+export type Wiring = {
+  switches: Array<{
+    tx: number;
+    ty: number;
+    channel: string;
+    // Defaults to the tile's own behavior (plate hold, lever toggle,
+    // button timed)
+    mode?: SwitchMode;
+    duration?: number;
+  }>;
+  // Evaluated in order, so later entries can build on earlier ones
+  logic?: Array<{ channel: string; op: "and" | "or"; inputs: string[] }>;
+  doors: Array<{ tx: number; ty: number; channel: string }>;
+};
+
+export type SwitchState = {
+  tx: number;
+  ty: number;
+  channel: string;
+  mode: SwitchMode;
+  duration: number;
+  // Someone is on the switch this step
+  held: boolean;
+  // A fan caught in a gust since the last wiring update
+  blown: boolean;
+  on: boolean;
+  onUntil: number;
+};
+
+// Things that move independently of the tile grid, placed in tile units
+export type EntitySpec = {
+  type: "platform" | "elevator";
+  // Top-left tile at each end of the path; platforms shuttle back and
+  // forth between them, elevators rest at `from`
+  from: { tx: number; ty: number };
+  to: { tx: number; ty: number };
+  // Width in tiles
+  width: number;
+  // Tiles per second
+  speed: number;
+  // Elevators head for `to` while someone stands on this plate, or while
+  // this channel is on
+  plate?: { tx: number; ty: number };
+  channel?: string;
+};
+
+// Live entity; positions are world pixels of the top-left corner
+export type Entity = {
+  id: number;
+  type: EntitySpec["type"];
+  from: Vec2;
+  to: Vec2;
+  w: number;
+  h: number;
+  pos: Vec2;
+  // How far it moved during the last step, to carry riders
+  delta: Vec2;
+  // 0 at `from`, 1 at `to`
+  progress: number;
+  // Progress per second
+  rate: number;
+  // Platforms only: 1 while heading for `to`
+  dir: 1 | -1;
+  plate?: { tx: number; ty: number };
+  channel?: string;
+};
+
+export type CrateMaterial = "wood" | "stone";
+
+export type Crate = Body & {
+  id: number;
+  material: CrateMaterial;
+  // Loosened from an Earth block; the oldest one crumbles past the cap
+  fromEarth: boolean;
+};
+
+export type TempPlatform = { tx: number; ty: number; expiresAt: number };
+
+// A pillar Earth is raising; ty is its bottom row
+export type Pillar = {
+  tx: number;
+  ty: number;
+  grown: number;
+  height: number;
+  nextAt: number;
+};
+
+// Plate state
+export type PlateState = {
+  tx: number;
+  ty: number;
+  pressed: boolean;
+  pressTime: number;
+};
+
+// Keys held this frame, plus keys that were double-tapped since the last frame
+export type InputSnapshot = {
+  pressed: ReadonlySet<string>;
+  doubleTap: ReadonlySet<string>;
+};
+
+// Things that happened during a step, for the renderer to turn into particles and sounds
+export type GameEvent =
+  | { type: "fireBreak"; tiles: Array<{ tx: number; ty: number; ch: string }> }
+  | { type: "waterFill"; seeds: Array<{ tx: number; ty: number }> }
+  | { type: "waterFreeze"; tiles: Array<{ tx: number; ty: number }> }
+  | { type: "iceMelt"; tx: number; ty: number }
+  | { type: "earthPlace"; tx: number; ty: number }
+  | { type: "earthCrumble"; tx: number; ty: number }
+  | { type: "earthDig"; tx: number; ty: number }
+  | { type: "crateBurn"; x: number; y: number }
+  | { type: "windDash"; playerId: number; x: number; y: number }
+  | { type: "windTrail"; playerId: number; x: number; y: number }
+  | {
+      type: "windGust";
+      playerId: number;
+      x: number;
+      y: number;
+      dx: number;
+      dy: number;
+      // Fire holes the gust blew out
+      doused: Array<{ tx: number; ty: number }>;
+    }
+  | { type: "jump"; playerId: number }
+  | { type: "platePress"; tx: number; ty: number }
+  | {
+      type: "checkpoint";
+      playerId: number;
+      tx: number;
+      ty: number;
+      shared: boolean;
+    }
+  | { type: "step"; playerId: number; x: number; y: number; dir: number }
+  | { type: "death"; playerId: number }
+  | { type: "levelComplete" };
+
+// The world as it was when a checkpoint was reached; a player who dies after
+// reaching it brings back what has been used up since (see
+// restoreCheckpoint in simulation.ts)
+export type CheckpointSave = {
+  // Simulated ms when it was taken
+  time: number;
+  tiles: string[];
+  crates: Crate[];
+  tempPlatforms: TempPlatform[];
+  frozen: TempPlatform[];
+};
+
+export type GameState = {
+  levelIndex: number;
+  level: Level;
+  players: Player[];
+  exits: Record<number, Vec2[]>;
+  plates: Map<string, PlateState>;
+  tempPlatforms: TempPlatform[];
+  // Water tiles Water froze, which thaw at expiresAt
+  frozen: TempPlatform[];
+  pillars: Pillar[];
+  entities: Entity[];
+  crates: Crate[];
+  switches: SwitchState[];
+  // Current value of every channel named in the wiring
+  channels: Record<string, boolean>;
+  prevActionDown: Record<number, boolean>;
+  // What each checkpoint reached so far saved, by "tx,ty"
+  checkpointSaves: Record<string, CheckpointSave>;
+  // Simulated milliseconds since the level started; replaces wall-clock time
+  time: number;
+  completed: boolean;
+  events: GameEvent[];
+};
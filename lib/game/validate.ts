@@ -0,0 +1,232 @@
+import { CRATE_TILES, MAX_EARTH_CRATES } from "./crates";
+import { ELEMENTS, elementById } from "./elements";
+import { checkpointOwner, isSwitch, tileTypes } from "./tiles";
+import type { LevelFile } from "./types";
+
+// Static checks on a level file. Errors make a level unplayable or
+// unwinnable; warnings flag things that are probably mistakes. Tile
+// coordinates are reported where an issue has a location.
+export type ValidationIssue = {
+  severity: "error" | "warning";
+  message: string;
+  tx?: number;
+  ty?: number;
+};
+
+const KNOWN_TILES = new Set(tileTypes().map((t) => t.ch));
+// Switch tiles that do nothing unless wired; unwired plates still count
+// towards platesToOpenDoors
+const SWITCH_NAMES: Record<string, string> = {
+  L: "Lever",
+  U: "Button",
+  F: "Fan",
+};
+
+export function formatIssue(issue: ValidationIssue) {
+  const at = issue.tx !== undefined ? ` at (${issue.tx}, ${issue.ty})` : "";
+  return `${issue.severity}${at}: ${issue.message}`;
+}
+
+export function hasErrors(issues: ValidationIssue[]) {
+  return issues.some((i) => i.severity === "error");
+}
+
+export function validateLevel(file: LevelFile): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const error = (message: string, tx?: number, ty?: number) =>
+    issues.push({ severity: "error", message, tx, ty });
+  const warn = (message: string, tx?: number, ty?: number) =>
+    issues.push({ severity: "warning", message, tx, ty });
+
+  const rows = file.tiles;
+  if (rows.length === 0 || rows[0].length === 0) {
+    error("Level has no tiles");
+    return issues;
+  }
+
+  const w = rows[0].length;
+  rows.forEach((row, ty) => {
+    if (row.length !== w) {
+      error(
+        `Row is ${row.length} tiles wide but the first row is ${w}`,
+        Math.min(row.length, w),
+        ty
+      );
+    }
+  });
+
+  const { players, platesToOpenDoors } = file.options;
+  for (const id of players) {
+    if (!elementById(id)) error(`Unknown player id ${id} in options.players`);
+  }
+  if (new Set(players).size !== players.length) {
+    error("options.players lists a player more than once");
+  }
+  if (players.length === 0) error("No players take part in this level");
+
+  const spawns: Record<number, Array<{ tx: number; ty: number }>> = {};
+  const gates: Record<number, number> = {};
+  // Plates and doors outside the wiring, which follow platesToOpenDoors
+  const plates: Array<{ tx: number; ty: number }> = [];
+  const doors: Array<{ tx: number; ty: number }> = [];
+  let crates = 0;
+  const wiring = file.wiring ?? { switches: [], doors: [] };
+  const wiredSwitches = new Set(wiring.switches.map((s) => `${s.tx},${s.ty}`));
+  const wiredDoors = new Set(wiring.doors.map((d) => `${d.tx},${d.ty}`));
+  for (let ty = 0; ty < rows.length; ty++) {
+    for (let tx = 0; tx < rows[ty].length; tx++) {
+      const ch = rows[ty][tx];
+      if (!KNOWN_TILES.has(ch)) {
+        error(`Unknown tile "${ch}"`, tx, ty);
+        continue;
+      }
+      for (const { id, spawn, gate } of ELEMENTS) {
+        if (ch === spawn) (spawns[id] ??= []).push({ tx, ty });
+        if (ch === gate) gates[id] = (gates[id] ?? 0) + 1;
+      }
+      const key = `${tx},${ty}`;
+      if (CRATE_TILES[ch]) crates++;
+      if (ch === "P" && !wiredSwitches.has(key)) plates.push({ tx, ty });
+      if (ch === "Q" && !wiredDoors.has(key)) doors.push({ tx, ty });
+      if (SWITCH_NAMES[ch] && !wiredSwitches.has(key)) {
+        warn(`${SWITCH_NAMES[ch]} is not wired to anything`, tx, ty);
+      }
+      const owner = checkpointOwner(ch);
+      const below = ty + 1 < rows.length ? rows[ty + 1][tx] : "#";
+      if (owner !== null && (below === "~" || below === "O")) {
+        warn("Checkpoint sits directly above a hazard", tx, ty);
+      }
+      if (owner && !players.includes(owner)) {
+        warn(
+          `${
+            elementById(owner)!.name
+          } does not take part; this checkpoint is never used`,
+          tx,
+          ty
+        );
+      }
+    }
+  }
+
+  for (const { id, name, spawn, gate } of ELEMENTS) {
+    const found = spawns[id] ?? [];
+    const playing = players.includes(id);
+    if (playing && found.length === 0) {
+      error(`${name} has no spawn ("${spawn}")`);
+    }
+    if (found.length > 1) {
+      for (const { tx, ty } of found) {
+        error(
+          `${name} has ${found.length} spawns; only one is allowed`,
+          tx,
+          ty
+        );
+      }
+    }
+    if (playing && !gates[id]) {
+      error(`${name} has no gate ("${gate}")`);
+    }
+    if (!playing) {
+      for (const { tx, ty } of found) {
+        warn(`${name} does not take part; this spawn is ignored`, tx, ty);
+      }
+      if (gates[id]) warn(`${name} does not take part but has a gate`);
+    }
+  }
+
+  for (const id of players) {
+    for (const { tx, ty } of spawns[id] ?? []) {
+      const below = ty + 1 < rows.length ? rows[ty + 1][tx] : "#";
+      if (below === "~" || below === "O") {
+        warn(`${elementById(id)!.name} spawns directly above a hazard`, tx, ty);
+      }
+    }
+  }
+
+  // Channels something can turn on
+  const driven = new Set([
+    ...wiring.switches.map((s) => s.channel),
+    ...(wiring.logic ?? []).map((l) => l.channel),
+  ]);
+  for (const sw of wiring.switches) {
+    if (!isSwitch(rows[sw.ty]?.[sw.tx] ?? "")) {
+      warn("Switch is not on a plate, lever, button or fan tile", sw.tx, sw.ty);
+    }
+  }
+  for (const entry of wiring.logic ?? []) {
+    for (const input of entry.inputs) {
+      if (!driven.has(input)) {
+        warn(`"${entry.channel}" reads "${input}", which nothing drives`);
+      }
+    }
+  }
+  for (const door of wiring.doors) {
+    if (rows[door.ty]?.[door.tx] !== "Q") {
+      warn("Wired door is not on a door tile", door.tx, door.ty);
+    } else if (!driven.has(door.channel)) {
+      error(
+        `Door can never open: nothing drives "${door.channel}"`,
+        door.tx,
+        door.ty
+      );
+    }
+  }
+
+  for (const e of file.entities ?? []) {
+    const { tx, ty } = e.from;
+    const inside = (at: { tx: number; ty: number }) =>
+      at.tx >= 0 && at.ty >= 0 && at.tx + e.width <= w && at.ty < rows.length;
+    if (!inside(e.from) || !inside(e.to)) {
+      error(`The ${e.type} path leaves the level`, tx, ty);
+    }
+    if (e.type === "platform") {
+      if (e.plate || e.channel) {
+        warn("Platforms always move; plates and channels are ignored", tx, ty);
+      }
+    } else if (e.channel) {
+      if (!driven.has(e.channel)) {
+        warn(`Elevator never moves: nothing drives "${e.channel}"`, tx, ty);
+      }
+    } else if (!e.plate) {
+      warn("Elevator has no plate and never moves", tx, ty);
+    } else if (rows[e.plate.ty]?.[e.plate.tx] !== "P") {
+      warn(
+        "Elevator is wired to a tile that is not a plate",
+        e.plate.tx,
+        e.plate.ty
+      );
+    }
+  }
+
+  if (doors.length > 0) {
+    if (plates.length === 0) {
+      for (const { tx, ty } of doors) {
+        error("Door can never open: the level has no plates", tx, ty);
+      }
+    } else {
+      // Crates hold plates down too, and Earth can make a few of its own
+      const weights =
+        crates +
+        (players.some((id) => elementById(id)?.builds) ? MAX_EARTH_CRATES : 0);
+      if (platesToOpenDoors > players.length + weights) {
+        error(
+          `Doors need ${platesToOpenDoors} players or crates on plates but there are only ${players.length} players and ${weights} crates`
+        );
+      }
+    }
+  }
+  if (platesToOpenDoors < 1) {
+    error("options.platesToOpenDoors must be at least 1");
+  }
+  if (
+    plates.length > 0 &&
+    doors.length === 0 &&
+    !file.options.requireAllPlates
+  ) {
+    for (const { tx, ty } of plates) {
+      warn("Plate does nothing: no doors and plates are not required", tx, ty);
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,90 @@
+import { ICE_LIFETIME, ICE_MAX_TILES } from "./constants";
+import { rectIntersect, worldToTile } from "./math";
+import {
+  floodFillDarkToWater,
+  isLiquidForPlayer,
+  setTile,
+  tileAt,
+} from "./tiles";
+import type { GameState, Player } from "./types";
+
+// Water's action: fills the dark holes beside Water, or freezes the water
+// there into ice for a while.
+
+// Freezes the water next to Water, and the water joined to it (sideways
+// and up or down), into ice. Tiles a player or crate is in stay liquid so
+// nobody ends up inside a block.
+function freezeWater(s: GameState, tx: number, ty: number) {
+  const level = s.level;
+  const ts = level.tileSize;
+  const occupied = (x: number, y: number) =>
+    [...s.players, ...s.crates].some((b) =>
+      rectIntersect(
+        { x: b.pos.x - b.w / 2, y: b.pos.y - b.h / 2, w: b.w, h: b.h },
+        { x: x * ts, y: y * ts, w: ts, h: ts }
+      )
+    );
+  const queue: Array<{ tx: number; ty: number }> = [];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) queue.push({ tx: tx + dx, ty: ty + dy });
+  }
+  const seen = new Set<string>();
+  const frozen: Array<{ tx: number; ty: number }> = [];
+  while (queue.length && frozen.length < ICE_MAX_TILES) {
+    const at = queue.shift()!;
+    const key = `${at.tx},${at.ty}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (tileAt(level, at.tx, at.ty) !== "W" || occupied(at.tx, at.ty)) {
+      continue;
+    }
+    setTile(level, at.tx, at.ty, "I");
+    s.frozen.push({
+      tx: at.tx,
+      ty: at.ty,
+      expiresAt: s.time + ICE_LIFETIME * 1000,
+    });
+    frozen.push(at);
+    queue.push(
+      { tx: at.tx - 1, ty: at.ty },
+      { tx: at.tx + 1, ty: at.ty },
+      { tx: at.tx, ty: at.ty - 1 },
+      { tx: at.tx, ty: at.ty + 1 }
+    );
+  }
+  if (frozen.length) s.events.push({ type: "waterFreeze", tiles: frozen });
+}
+
+// Flood-fills from any adjacent O tiles (including diagonals). With no dark
+// hole in reach, freezes the water beside Water instead; not from inside
+// it, though.
+export function doWaterAction(s: GameState, p: Player) {
+  const level = s.level;
+  const { tx, ty } = worldToTile(p.pos.x, p.pos.y, level.tileSize);
+  // Collect seeds from the 3x3 neighborhood (including center)
+  const seeds: Array<{ tx: number; ty: number }> = [];
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const ux = tx + dx;
+      const uy = ty + dy;
+      if (tileAt(level, ux, uy) === "O") seeds.push({ tx: ux, ty: uy });
+    }
+  }
+  if (seeds.length === 0) {
+    if (!isLiquidForPlayer(tileAt(level, tx, ty), p.id)) freezeWater(s, tx, ty);
+    return;
+  }
+  // Flood-fill from each unique seed
+  const seenSeed = new Set<string>();
+  let totalChanged = 0;
+  for (const seed of seeds) {
+    const key = `${seed.tx},${seed.ty}`;
+    if (seenSeed.has(key)) continue;
+    seenSeed.add(key);
+    totalChanged += floodFillDarkToWater(level, seed.tx, seed.ty);
+  }
+  if (totalChanged > 0) {
+    // Splash at up to a handful of seeds to visualize the conversion
+    s.events.push({ type: "waterFill", seeds: seeds.slice(0, 6) });
+  }
+}
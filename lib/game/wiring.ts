@@ -0,0 +1,96 @@
+import { touchesTile } from "./physics";
+import { tileAt } from "./tiles";
+import type {
+  GameState,
+  Level,
+  SwitchMode,
+  SwitchState,
+  Wiring,
+} from "./types";
+
+// Switches drive named channels, logic entries combine channels, and wired
+// doors open while their channel is on. Doors left out of the wiring keep
+// the level-wide plate count rule in updateDoorOpen.
+
+// Timed switches without a duration stay on this long (ms)
+export const DEFAULT_TIMED_DURATION = 3000;
+
+const TILE_MODES: Record<string, SwitchMode> = {
+  P: "hold",
+  L: "toggle",
+  U: "timed",
+  // Fans spin for a while after a gust
+  F: "timed",
+};
+
+export function createSwitches(level: Level): SwitchState[] {
+  return level.wiring.switches.map((sw) => ({
+    tx: sw.tx,
+    ty: sw.ty,
+    channel: sw.channel,
+    mode: sw.mode ?? TILE_MODES[tileAt(level, sw.tx, sw.ty)] ?? "hold",
+    duration: sw.duration ?? DEFAULT_TIMED_DURATION,
+    held: false,
+    blown: false,
+    on: false,
+    onUntil: 0,
+  }));
+}
+
+// Every channel a level mentions, all off
+export function createChannels(wiring: Wiring): Record<string, boolean> {
+  const channels: Record<string, boolean> = {};
+  for (const sw of wiring.switches) channels[sw.channel] = false;
+  for (const entry of wiring.logic ?? []) {
+    channels[entry.channel] = false;
+    for (const input of entry.inputs) channels[input] = false;
+  }
+  for (const door of wiring.doors) channels[door.channel] = false;
+  return channels;
+}
+
+export function updateWiring(s: GameState) {
+  const { level } = s;
+  const bodies = [...s.players, ...s.crates];
+  const channels: Record<string, boolean> = {};
+  for (const key of Object.keys(s.channels)) channels[key] = false;
+
+  for (const sw of s.switches) {
+    // Fans are driven by Wind's gust rather than by weight
+    const held =
+      tileAt(level, sw.tx, sw.ty) === "F"
+        ? sw.blown
+        : bodies.some((b) => touchesTile(level, b, sw.tx, sw.ty));
+    sw.blown = false;
+    const touched = held && !sw.held;
+    sw.held = held;
+    if (sw.mode === "hold") {
+      sw.on = held;
+    } else if (sw.mode === "toggle") {
+      if (touched) sw.on = !sw.on;
+    } else if (sw.mode === "latch") {
+      if (touched) sw.on = true;
+    } else {
+      if (touched) sw.onUntil = s.time + sw.duration;
+      sw.on = s.time < sw.onUntil;
+    }
+    if (sw.on) channels[sw.channel] = true;
+  }
+
+  for (const entry of level.wiring.logic ?? []) {
+    const values = entry.inputs.map((input) => !!channels[input]);
+    const out =
+      entry.op === "and"
+        ? values.length > 0 && values.every(Boolean)
+        : values.some(Boolean);
+    // Several entries (or a switch) may drive the same channel
+    channels[entry.channel] = !!channels[entry.channel] || out;
+  }
+  s.channels = channels;
+
+  const doors: Record<string, boolean> = {};
+  for (const door of level.wiring.doors) {
+    doors[`${door.tx},${door.ty}`] = channels[door.channel];
+  }
+  level.wiredDoors = doors;
+}
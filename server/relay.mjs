@@ -0,0 +1,135 @@
+// WebSocket relay for online play. The relay knows nothing about the game:
+// it hands out lobby codes, lets up to MAX_PEERS clients join a host and
+// forwards messages between them. The host's browser runs the simulation.
+//
+//   pnpm relay                  # ws://localhost:8787
+//   RELAY_PORT=9000 pnpm relay
+import { WebSocketServer } from "ws";
+
+const PORT = Number(process.env.RELAY_PORT) || 8787;
+const MAX_PEERS = 3;
+// No 0/O or 1/I so codes survive being read aloud
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 4;
+
+// code -> { host: WebSocket, peers: Map<peerId, WebSocket> }
+const lobbies = new Map();
+let nextPeerId = 1;
+
+function send(ws, msg) {
+  if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(msg));
+}
+
+function newCode() {
+  for (;;) {
+    let code = "";
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+    }
+    if (!lobbies.has(code)) return code;
+  }
+}
+
+function closeLobby(code) {
+  const lobby = lobbies.get(code);
+  if (!lobby) return;
+  lobbies.delete(code);
+  for (const peer of lobby.peers.values()) {
+    send(peer, { type: "hostLeft" });
+    peer.close();
+  }
+}
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on("connection", (ws) => {
+  // What this socket is: { role: "host", code } or { role: "peer", code, peerId }
+  let self = null;
+
+  function onMessage(raw) {
+    let msg;
+    try {
+      msg = JSON.parse(String(raw));
+    } catch {
+      send(ws, { type: "error", message: "Malformed message" });
+      return;
+    }
+    // Valid JSON can still be null, a number or a string
+    if (!msg || typeof msg !== "object") {
+      send(ws, { type: "error", message: "Malformed message" });
+      return;
+    }
+
+    if (!self) {
+      if (msg.type === "host") {
+        const code = newCode();
+        lobbies.set(code, { host: ws, peers: new Map() });
+        self = { role: "host", code };
+        send(ws, { type: "hosted", code });
+      } else if (msg.type === "join") {
+        const code = String(msg.code ?? "").toUpperCase();
+        const lobby = lobbies.get(code);
+        if (!lobby) {
+          send(ws, { type: "error", message: `No lobby with code ${code}` });
+        } else if (lobby.peers.size >= MAX_PEERS) {
+          send(ws, { type: "error", message: "Lobby is full" });
+        } else {
+          const peerId = nextPeerId++;
+          lobby.peers.set(peerId, ws);
+          self = { role: "peer", code, peerId };
+          send(ws, { type: "joined", code, peerId });
+          send(lobby.host, {
+            type: "peerJoined",
+            peerId,
+            name: String(msg.name ?? `Player ${peerId}`).slice(0, 24),
+          });
+        }
+      }
+      return;
+    }
+
+    const lobby = lobbies.get(self.code);
+    if (!lobby) return;
+    if (self.role === "host") {
+      if (msg.type === "toPeer") {
+        const peer = lobby.peers.get(msg.peerId);
+        if (peer) send(peer, { type: "fromHost", data: msg.data });
+      } else if (msg.type === "broadcast") {
+        for (const peer of lobby.peers.values()) {
+          send(peer, { type: "fromHost", data: msg.data });
+        }
+      } else if (msg.type === "kick") {
+        lobby.peers.get(msg.peerId)?.close();
+      }
+    } else if (msg.type === "toHost") {
+      send(lobby.host, {
+        type: "fromPeer",
+        peerId: self.peerId,
+        data: msg.data,
+      });
+    }
+  }
+
+  // One client's bad message must not take down every lobby
+  ws.on("message", (raw) => {
+    try {
+      onMessage(raw);
+    } catch (err) {
+      console.error("Dropped a message that failed to relay:", err);
+    }
+  });
+
+  ws.on("close", () => {
+    if (!self) return;
+    if (self.role === "host") {
+      closeLobby(self.code);
+    } else {
+      const lobby = lobbies.get(self.code);
+      if (lobby && lobby.peers.delete(self.peerId)) {
+        send(lobby.host, { type: "peerLeft", peerId: self.peerId });
+      }
+    }
+  });
+});
+
+console.log(`Relay listening on ws://localhost:${PORT}`);